@@ -3,18 +3,95 @@
 import React from "react"
 import { useState, useRef, useEffect, startTransition, useCallback } from "react"
 import { flushSync } from "react-dom"
-import { GoogleGenAI, type LiveServerMessage, Modality } from "@google/genai"
 import SetupFormComp from "./components/SetupForm"
-import FeedbackReportComp from "./components/FeedbackReport"
+import FeedbackReportComp, { type PlaybackData } from "./components/FeedbackReport"
 import AudioVisualizer from "./components/AudioVisualizer"
 import CountdownOverlay from "./components/CountdownOverlay"
-import { type InterviewConfig, InterviewState, type ChatMessage, type FeedbackData } from "./types"
-import { SYSTEM_INSTRUCTION_TEMPLATE, FEEDBACK_GENERATION_PROMPT, CREDITS_INFO } from "./constants"
-import { createPcmBlob, decodeAudioData } from "./services/audioService"
+import StageTracker from "./components/StageTracker"
+import CodeEditor from "./components/CodeEditor"
+import Whiteboard from "./components/Whiteboard"
+import {
+  type InterviewConfig,
+  InterviewState,
+  InterviewMode,
+  type ChatMessage,
+  type FeedbackData,
+  type AgendaStage,
+  type BankQuestion,
+  type RoleDefinition,
+  type JobDescription,
+  type CodeRevision,
+  type WhiteboardSnapshot,
+} from "./types"
+import {
+  SYSTEM_INSTRUCTION_TEMPLATE,
+  RESUME_SESSION_INSTRUCTION,
+  FEEDBACK_GENERATION_PROMPT,
+  CREDITS_INFO,
+  MAX_RECONNECT_ATTEMPTS,
+  RECONNECT_BASE_DELAY_MS,
+  RECONNECT_MAX_DELAY_MS,
+  WRAP_UP_INSTRUCTION,
+  AGENDA_INSTRUCTION,
+  STAGE_CHANGE_INSTRUCTION,
+  STAGE_TRANSCRIPT_MARKER,
+  STAGE_FEEDBACK_PROMPT,
+  QUESTION_BANK_INSTRUCTION,
+  BANK_FEEDBACK_PROMPT,
+  JOB_DESCRIPTION_INSTRUCTION,
+  LANGUAGE_INSTRUCTION,
+  FEEDBACK_LANGUAGE_PROMPT,
+  DEFAULT_LANGUAGE,
+  JOB_FIT_FEEDBACK_PROMPT,
+  INTERRUPTION_SILENCE_MS,
+  CODING_INSTRUCTION,
+  CODE_SNAPSHOT_CONTEXT,
+  CODE_TRANSCRIPT_MARKER,
+  CODE_HISTORY_TRANSCRIPT,
+  CODE_FEEDBACK_PROMPT,
+  CODE_SNAPSHOT_DEBOUNCE_MS,
+  WHITEBOARD_INSTRUCTION,
+  WHITEBOARD_SNAPSHOT_CAPTION,
+  WHITEBOARD_TRANSCRIPT_MARKER,
+  WHITEBOARD_FEEDBACK_PROMPT,
+  WHITEBOARD_SNAPSHOT_DEBOUNCE_MS,
+  CAMERA_INSTRUCTION,
+  ANSWER_FEEDBACK_PROMPT,
+  CONFIDENCE_FEEDBACK_PROMPT,
+  ANSWER_PAIRS_TRANSCRIPT,
+  FILLER_PHRASES,
+} from "./constants"
+import { base64ToUint8Array, createPcmBlob, decodeAudioData } from "./services/audioService"
+import { startMicrophoneCapture, CAPTURE_SAMPLE_RATE, type MicrophoneCapture } from "./services/audioCapture"
+import { InterviewSession } from "./services/interviewSession"
+import { AgendaTracker, buildAgenda, toStageFeedback } from "./services/interviewAgenda"
+import { findPersona } from "./services/personaStore"
+import { findRole, toCompetencyScores } from "./services/roleStore"
+import { parseJobDescription, toJobFitFeedback } from "./services/jobDescription"
+import { parseResume } from "./services/resumeService"
+import { findLanguage, toLanguageFeedback } from "./services/interviewLanguage"
+import { toCodingFeedback } from "./services/liveCoding"
+import { toImageAttachment, toWhiteboardFeedback } from "./services/whiteboard"
+import { CameraFrameSampler } from "./services/cameraFrames"
+import { segmentAnswers, toAnswerFeedback } from "./services/answerScoring"
+import { buildFeedbackSchema, generateValidatedFeedback } from "./services/feedbackSchema"
+import { analyzeDelivery } from "./services/speechAnalytics"
+import { ProsodyTracker, toConfidenceFeedback } from "./services/prosodyAnalysis"
+import { loadQuestionBanks, selectSessionQuestions, toBankQuestionFeedback } from "./services/questionBank"
+import type { LiveTransportConfig } from "./services/liveTransport"
+import {
+  createConversationProvider,
+  createFeedbackProvider,
+  type ConversationProvider,
+} from "./services/providers"
 import { gestureService } from "./services/gestureService"
+import { SessionClock } from "./services/sessionClock"
+import { SessionRecorder } from "./services/sessionRecorder"
+import { createSessionBundle, downloadBlob } from "./services/sessionExport"
 import {
   MicrophoneIcon,
   PhoneXMarkIcon,
+  ClockIcon,
   ArrowPathIcon,
   InformationCircleIcon,
   XMarkIcon,
@@ -24,6 +101,9 @@ import {
   ChatBubbleLeftRightIcon,
   CheckCircleIcon,
   VideoCameraIcon,
+  PaperAirplaneIcon,
+  PauseIcon,
+  PlayIcon,
 } from "@heroicons/react/24/solid"
 
 // Debounced transcript hook - Batches rapid turn completions to prevent render thrashing
@@ -144,16 +224,6 @@ const VirtualizedTranscript = React.memo(
 VirtualizedTranscript.displayName = "VirtualizedTranscript"
 
 // Messages to display while analyzing
-const LOADING_MESSAGES = [
-  "Processing interview audio...",
-  "Analyzing technical accuracy...",
-  "Evaluating communication clarity...",
-  "Detecting key strengths...",
-  "Calculating confidence metrics...",
-  "Compiling final score...",
-  "Almost there...",
-]
-
 const App: React.FC = () => {
   // Use a ref to track state instantly for async callbacks
   const stateRef = useRef<InterviewState>(InterviewState.IDLE)
@@ -165,6 +235,8 @@ const App: React.FC = () => {
   }, [state])
 
   const [config, setConfig] = useState<InterviewConfig | null>(null)
+  const [personaName, setPersonaName] = useState("")
+  const [roleTitle, setRoleTitle] = useState("")
   const [transcripts, setTranscripts] = useState<ChatMessage[]>([])
 
   // UI State for text streaming (Visual only)
@@ -172,12 +244,16 @@ const App: React.FC = () => {
   const [currentOutputTrans, setCurrentOutputTrans] = useState("")
 
   const [feedback, setFeedback] = useState<FeedbackData | null>(null)
+  // Mixed recording for the playback viewer; messages come from the live transcript
+  const [recordingPlayback, setRecordingPlayback] = useState<Omit<PlaybackData, "messages"> | null>(null)
+  const playbackUrlRef = useRef<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [showInfoModal, setShowInfoModal] = useState(false)
   const [tokenUsage, setTokenUsage] = useState(0)
 
   // UX States
   const [loadingMsgIndex, setLoadingMsgIndex] = useState(0)
+  const loadingMessages = findLanguage(config?.language).loadingMessages
   const [showResetNotification, setShowResetNotification] = useState(false)
   const [showCountdown, setShowCountdown] = useState(false)
 
@@ -192,28 +268,100 @@ const App: React.FC = () => {
   const videoRef = useRef<HTMLVideoElement>(null)
   const videoStreamRef = useRef<MediaStream | null>(null)
   const gestureReqIdRef = useRef<number | null>(null)
+  // Sends webcam stills to the interviewer when camera sharing is on
+  const cameraFrameTimerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+
+  // IMPORTANT: Ref to track the active session object for cleanup
+  const sessionRef = useRef<InterviewSession | null>(null)
+  const providerRef = useRef<ConversationProvider | null>(null)
+  const baseInstructionRef = useRef<string>("")
+  // Voice, model and pace for every (re)connection of the current interview
+  const speechSettingsRef = useRef<Omit<LiveTransportConfig, "systemInstruction">>({})
+
+  // Pause bookkeeping. Paused time is excluded from the interview clock.
+  const isPausedRef = useRef(false)
+  const needsReconnectRef = useRef(false)
+  const clockRef = useRef(new SessionClock())
+
+  // Local recording of both sides, on the same timeline as clockRef
+  const recorderRef = useRef(new SessionRecorder())
+  // Loudness and pitch of the candidate's answers, for the vocal delivery report
+  const prosodyRef = useRef(new ProsodyTracker())
+
+  const releasePlaybackAudio = () => {
+    if (playbackUrlRef.current) URL.revokeObjectURL(playbackUrlRef.current)
+    playbackUrlRef.current = null
+    setRecordingPlayback(null)
+  }
 
-  // IMPORTANT: Refs to track the active session object for cleanup
-  const sessionRef = useRef<Promise<any> | null>(null)
-  const activeSessionRef = useRef<any>(null)
+  // Reconnect bookkeeping (see handleConnectionLost)
+  const hasConnectedRef = useRef(false)
+  const reconnectAttemptRef = useRef(0)
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [reconnectAttempt, setReconnectAttempt] = useState(0)
 
   // Session ID to prevent race conditions (Old session events crashing new session)
   const currentSessionIdRef = useRef<string>("")
 
   const nextStartTimeRef = useRef<number>(0)
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set())
-  const processorRef = useRef<ScriptProcessorNode | null>(null)
+  const processorRef = useRef<MicrophoneCapture | null>(null)
 
   // DATA INTEGRITY REFS:
   const currentInputRef = useRef<string>("")
   const currentOutputRef = useRef<string>("")
   const fullTranscriptRef = useRef<string>("") // For final analysis
 
+  // Text mode: typed answer being composed, and whether the interviewer's voice is played
+  const [draftAnswer, setDraftAnswer] = useState("")
+  const playRepliesRef = useRef<boolean>(true)
+
+  // Time box: remaining interview time (null when untimed) and whether the wrap-up cue went out
+  const [remainingMs, setRemainingMs] = useState<number | null>(null)
+  const timeBoxMsRef = useRef(0)
+  const wrapUpSentRef = useRef(false)
+
+  // Agenda: current stage for the tracker UI; the tracker itself lives in a ref for session callbacks
+  const agendaRef = useRef<AgendaTracker | null>(null)
+  const [agendaProgress, setAgendaProgress] = useState({ index: 0, answers: 0 })
+
+  // Question bank questions drawn for this session (empty when no bank is selected)
+  const bankQuestionsRef = useRef<BankQuestion[]>([])
+
+  // Role being interviewed for; its rubric drives the feedback scores
+  const roleRef = useRef<RoleDefinition | null>(null)
+
+  // Parsed job description for this session; null when none was given or nothing parsed
+  const jobDescriptionRef = useRef<JobDescription | null>(null)
+
+  // Live coding: the editor lives in state for the UI and in a ref for the autosave timer.
+  // codeLanguage is null when coding mode is off.
+  const [codeLanguage, setCodeLanguage] = useState<string | null>(null)
+  const [code, setCode] = useState("")
+  const [codeStatus, setCodeStatus] = useState("")
+  const codeRef = useRef({ text: "", language: "" })
+  const codeRevisionsRef = useRef<CodeRevision[]>([])
+  const codeSnapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Whiteboard: the canvas owns the drawing; the latest export and shared versions live in refs
+  const [whiteboardEnabled, setWhiteboardEnabled] = useState(false)
+  const [whiteboardStatus, setWhiteboardStatus] = useState("")
+  const whiteboardImageRef = useRef<string | null>(null)
+  const whiteboardSnapshotsRef = useRef<WhiteboardSnapshot[]>([])
+  const whiteboardTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const minutesLeft = () => Math.max(1, Math.ceil((timeBoxMsRef.current - clockRef.current.elapsedMs()) / 60000))
+
   const transcriptEndRef = useRef<HTMLDivElement>(null)
   const errorTranscriptEndRef = useRef<HTMLDivElement>(null)
 
+  // Same messages as `transcripts`, readable synchronously once the batch is flushed.
+  // Feedback refers to messages by their index here, which is also their index in `transcripts`.
+  const messagesRef = useRef<ChatMessage[]>([])
+
   const { addMessagesToBatch, flushBatch } = useDebouncedTranscript(
     (batchedMessages) => {
+      messagesRef.current = [...messagesRef.current, ...batchedMessages]
       startTransition(() => {
         setTranscripts((prev) => [...prev, ...batchedMessages])
       })
@@ -255,7 +403,7 @@ const App: React.FC = () => {
     if (state === InterviewState.ANALYZING) {
       setLoadingMsgIndex(0)
       interval = setInterval(() => {
-        setLoadingMsgIndex((prev) => (prev + 1) % LOADING_MESSAGES.length)
+        setLoadingMsgIndex((prev) => prev + 1)
       }, 6000)
     }
     return () => clearInterval(interval)
@@ -268,6 +416,20 @@ const App: React.FC = () => {
     // Invalidate current session immediately
     currentSessionIdRef.current = ""
 
+    // Cancel any pending reconnect
+    if (codeSnapshotTimerRef.current) {
+      clearTimeout(codeSnapshotTimerRef.current)
+      codeSnapshotTimerRef.current = null
+    }
+    if (whiteboardTimerRef.current) {
+      clearTimeout(whiteboardTimerRef.current)
+      whiteboardTimerRef.current = null
+    }
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current)
+      reconnectTimerRef.current = null
+    }
+
     // 1. Stop Audio Stream
     if (streamRef.current) {
       try {
@@ -287,29 +449,28 @@ const App: React.FC = () => {
       videoStreamRef.current = null
     }
 
-    // 3. Clear Gesture Loop
+    // 3. Clear Gesture Loop and camera frames
     if (gestureReqIdRef.current) {
       cancelAnimationFrame(gestureReqIdRef.current)
       gestureReqIdRef.current = null
     }
+    if (cameraFrameTimerRef.current) {
+      clearInterval(cameraFrameTimerRef.current)
+      cameraFrameTimerRef.current = null
+    }
 
     // 4. Close Audio Processors
     if (processorRef.current) {
       try {
-        processorRef.current.disconnect()
-        processorRef.current.onaudioprocess = null
+        processorRef.current.stop()
       } catch (e) {}
       processorRef.current = null
     }
 
     // 5. Close Live API Session
-    if (activeSessionRef.current) {
-      try {
-        await activeSessionRef.current.close()
-      } catch (e) {
-        console.warn("Error closing Live session:", e)
-      }
-      activeSessionRef.current = null
+    if (sessionRef.current) {
+      await sessionRef.current.close()
+      sessionRef.current = null
     }
 
     // 6. Close Audio Contexts - Safely
@@ -341,10 +502,29 @@ const App: React.FC = () => {
     }
   }
 
-  const startGestureAnalysis = async (sessionId: string) => {
+  // Low-rate stills for the interviewer, only while the interview is running
+  const startCameraFrames = (sessionId: string, frameRate: number, frameWidth: number) => {
+    const sampler = new CameraFrameSampler(frameWidth)
+    cameraFrameTimerRef.current = setInterval(() => {
+      if (currentSessionIdRef.current !== sessionId) {
+        if (cameraFrameTimerRef.current) clearInterval(cameraFrameTimerRef.current)
+        cameraFrameTimerRef.current = null
+        return
+      }
+      if (stateRef.current !== InterviewState.ACTIVE || !videoRef.current) return
+      const frame = sampler.capture(videoRef.current)
+      if (frame) sessionRef.current?.sendVideoFrame(frame)
+    }, 1000 / frameRate)
+  }
+
+  // One camera stream feeds both the local gesture detection and the frames sent to the interviewer
+  const startCamera = async (
+    sessionId: string,
+    options: { gestures: boolean; frames: { rate: number; width: number } | null },
+  ) => {
     // NOTE: Initialization is now triggered in SetupForm. We just use the instance.
     try {
-      if (!gestureService.isServiceReady()) {
+      if (options.gestures && !gestureService.isServiceReady()) {
         console.warn("Gesture service not ready yet, attempting init...")
         await gestureService.initialize()
       }
@@ -362,6 +542,8 @@ const App: React.FC = () => {
           }
 
           videoRef.current?.play().catch((e) => console.warn("Video play blocked", e))
+          if (options.frames) startCameraFrames(sessionId, options.frames.rate, options.frames.width)
+          if (!options.gestures) return
           gestureService.reset()
 
           // Run high-performance animation frame loop for detection
@@ -374,8 +556,8 @@ const App: React.FC = () => {
               return
             }
 
-            if (videoRef.current && videoRef.current.readyState >= 2) {
-              gestureService.detect(videoRef.current)
+            if (!isPausedRef.current && videoRef.current && videoRef.current.readyState >= 2) {
+              gestureService.detect(videoRef.current, clockRef.current.elapsedMs())
             }
             gestureReqIdRef.current = requestAnimationFrame(loop)
           }
@@ -384,11 +566,401 @@ const App: React.FC = () => {
         }
       }
     } catch (e) {
-      console.error("Failed to start gesture camera:", e)
+      console.error("Failed to start camera:", e)
       // Do not fail the interview if camera fails, just log it
     }
   }
 
+  // Record a turn that ended early (interruption or dropped connection)
+  const commitPendingTurn = (input: string, output: string, reason: "interrupted" | "connection lost") => {
+    const marker = `(${reason})`
+    if (input.trim() || output.trim()) {
+      const { user, model } = recorderRef.current.takeTurnTiming(clockRef.current.elapsedMs())
+      addMessagesToBatch([
+        { role: "user", text: input, ...user },
+        { role: "model", text: `${output} ${marker}`, ...model, interrupted: reason === "interrupted" },
+      ])
+      fullTranscriptRef.current += `Candidate: ${input}\nInterviewer: ${output} ${marker}\n`
+    }
+
+    clearPendingTranscripts()
+  }
+
+  // Clear the in-progress turn with flushed updates for instant clear
+  const clearPendingTranscripts = () => {
+    currentInputRef.current = ""
+    currentOutputRef.current = ""
+    flushSync(() => {
+      setCurrentInputTrans("")
+      setCurrentOutputTrans("")
+    })
+  }
+
+  const stopModelPlayback = () => {
+    recorderRef.current.truncateInterviewer(clockRef.current.elapsedMs())
+
+    if (sourcesRef.current) {
+      sourcesRef.current.forEach((s) => {
+        try {
+          s.stop()
+        } catch (e) {}
+      })
+      sourcesRef.current.clear()
+    }
+    nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0
+  }
+
+  const playModelAudio = async (base64Audio: string) => {
+    if (!playRepliesRef.current) return
+    // A suspended (paused) context still takes the rest of the reply; it plays and is recorded on resume
+    if (!outputAudioContextRef.current || outputAudioContextRef.current.state === "closed") return
+    const ctx = outputAudioContextRef.current
+
+    try {
+      const audioBuffer = await decodeAudioData(base64ToUint8Array(base64Audio), ctx, 24000, 1)
+
+      // Recalculate timing to prevent overlap or gaps
+      nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime)
+
+      const source = ctx.createBufferSource()
+      source.buffer = audioBuffer
+
+      if (outputAnalyserRef.current) {
+        try {
+          source.connect(outputAnalyserRef.current)
+        } catch (e) {}
+      } else {
+        try {
+          source.connect(ctx.destination)
+        } catch (e) {}
+      }
+
+      source.addEventListener("ended", () => {
+        if (sourcesRef.current) sourcesRef.current.delete(source)
+      })
+
+      source.start(nextStartTimeRef.current)
+      recorderRef.current.addInterviewerAudio(
+        audioBuffer.getChannelData(0),
+        clockRef.current.elapsedMs() + (nextStartTimeRef.current - ctx.currentTime) * 1000,
+      )
+      nextStartTimeRef.current += audioBuffer.duration
+      if (sourcesRef.current) sourcesRef.current.add(source)
+    } catch (decodeErr) {
+      console.warn("Audio decode error", decodeErr)
+    }
+  }
+
+  // Opens a Live session for the current interview and wires its events into the UI.
+  // Used for the initial connection and again for every reconnect attempt.
+  const connectSession = async (sessionId: string, systemInstruction: string) => {
+    const provider = providerRef.current
+    if (!provider) throw new Error("Conversation provider not initialized")
+
+    const session = new InterviewSession(provider, { systemInstruction, ...speechSettingsRef.current })
+    sessionRef.current = session
+
+    session.on("open", () => {
+      console.log("Session Opened", sessionId)
+      if (!clockRef.current.isRunning()) {
+        clockRef.current.start()
+        recorderRef.current.start()
+      }
+      setState(InterviewState.ACTIVE)
+    })
+
+    // An open socket can still be rejected during setup, so retries are only reset once the
+    // server has accepted the session; until then every drop counts as another attempt
+    session.on("ready", () => {
+      hasConnectedRef.current = true
+      reconnectAttemptRef.current = 0
+      setReconnectAttempt(0)
+    })
+
+    // --- 1. HANDLE TEXT IMMEDIATELY WITH FLUSHED UPDATES (Zero UI Latency) ---
+    session.on("transcript", ({ role, text }) => {
+      if (role === "model") {
+        currentOutputRef.current = text
+        flushSync(() => {
+          setCurrentOutputTrans(text)
+        })
+      } else {
+        currentInputRef.current = text
+        flushSync(() => {
+          setCurrentInputTrans(text)
+        })
+      }
+    })
+
+    // Handle turn completion
+    session.on("turnComplete", ({ input, output }) => {
+      if (input.trim() || output.trim()) {
+        const { user, model } = recorderRef.current.takeTurnTiming(clockRef.current.elapsedMs())
+
+        // This prevents React from re-rendering massive transcript arrays on every turn
+        addMessagesToBatch([
+          { role: "user", text: input, ...user },
+          { role: "model", text: output, ...model },
+        ])
+
+        const newTokens = Math.ceil((input.length + output.length) / 3.5)
+        setTokenUsage((prev) => prev + newTokens)
+
+        fullTranscriptRef.current += `Candidate: ${input}\nInterviewer: ${output}\n`
+
+        const agenda = agendaRef.current
+        if (agenda && input.trim()) {
+          agenda.recordAnswer()
+          if (agenda.shouldAdvance(clockRef.current.elapsedMs())) {
+            enterStage(agenda.advance(clockRef.current.elapsedMs()), true)
+          } else {
+            setAgendaProgress({ index: agenda.currentIndex(), answers: agenda.currentAnswers() })
+          }
+        }
+      }
+
+      clearPendingTranscripts()
+    })
+
+    // Handle Interruption
+    session.on("interrupted", ({ input, output }) => {
+      stopModelPlayback()
+      commitPendingTurn(input, output, "interrupted")
+    })
+
+    // --- 2. HANDLE AUDIO ASYNCHRONOUSLY (Does not block text UI) ---
+    session.on("audio", (base64Audio) => {
+      playModelAudio(base64Audio)
+    })
+
+    session.on("closed", () => {
+      console.log("Session Closed", sessionId)
+      handleConnectionLost(sessionId, "Session closed unexpectedly by server.")
+    })
+
+    session.on("error", ({ message, cause }) => {
+      console.error("Live API Error:", cause)
+      handleConnectionLost(sessionId, message)
+    })
+
+    await session.start()
+  }
+
+  // Logs a stage the agenda just moved to and, unless another cue already covers it,
+  // tells the interviewer. Instructions sent while reconnecting are lost, but the
+  // resumed session is told the current stage anyway.
+  const enterStage = (stage: AgendaStage | null, notify: boolean) => {
+    const agenda = agendaRef.current
+    if (!agenda || !stage) return
+
+    fullTranscriptRef.current += `${STAGE_TRANSCRIPT_MARKER(stage)}\n`
+    setAgendaProgress({ index: agenda.currentIndex(), answers: 0 })
+    if (notify) {
+      sessionRef.current?.sendInstruction(STAGE_CHANGE_INSTRUCTION(stage, agenda.currentIndex(), agenda.stages.length), "stageChange")
+    }
+  }
+
+  const handleNextStage = () => {
+    const agenda = agendaRef.current
+    if (!agenda || stateRef.current !== InterviewState.ACTIVE) return
+    enterStage(agenda.advance(clockRef.current.elapsedMs()), true)
+  }
+
+  // Shares the editor with the interviewer. Unchanged code is not autosaved again; a submit
+  // always goes through and asks the interviewer to review it.
+  const shareCode = (submitted: boolean) => {
+    if (codeSnapshotTimerRef.current) {
+      clearTimeout(codeSnapshotTimerRef.current)
+      codeSnapshotTimerRef.current = null
+    }
+    const { text, language } = codeRef.current
+    const revisions = codeRevisionsRef.current
+    const last = revisions[revisions.length - 1]
+    const unchanged = last?.code === text && last.language === language
+    if (!text.trim() || (unchanged && !submitted) || stateRef.current !== InterviewState.ACTIVE) return
+
+    const revision: CodeRevision = {
+      revision: (last?.revision ?? 0) + 1,
+      atMs: clockRef.current.elapsedMs(),
+      language,
+      code: text,
+      submitted,
+    }
+    revisions.push(revision)
+    sessionRef.current?.sendContext(CODE_SNAPSHOT_CONTEXT(revision), submitted)
+    if (submitted) fullTranscriptRef.current += `${CODE_TRANSCRIPT_MARKER(revision)}\n`
+    setCodeStatus(`Revision ${revision.revision} ${submitted ? "submitted" : "shared"}`)
+  }
+
+  const scheduleCodeSnapshot = () => {
+    setCodeStatus("Unshared changes")
+    if (codeSnapshotTimerRef.current) clearTimeout(codeSnapshotTimerRef.current)
+    codeSnapshotTimerRef.current = setTimeout(() => shareCode(false), CODE_SNAPSHOT_DEBOUNCE_MS)
+  }
+
+  const handleCodeChange = (text: string) => {
+    setCode(text)
+    codeRef.current.text = text
+    scheduleCodeSnapshot()
+  }
+
+  const handleCodeLanguageChange = (language: string) => {
+    setCodeLanguage(language)
+    codeRef.current.language = language
+    scheduleCodeSnapshot()
+  }
+
+  // Sends the board to the interviewer, like shareCode: autosaves skip an unchanged board,
+  // an explicit share always goes through and asks for a reply.
+  const shareWhiteboard = (shared: boolean) => {
+    if (whiteboardTimerRef.current) {
+      clearTimeout(whiteboardTimerRef.current)
+      whiteboardTimerRef.current = null
+    }
+    const image = whiteboardImageRef.current
+    const snapshots = whiteboardSnapshotsRef.current
+    const last = snapshots[snapshots.length - 1]
+    if (!image || (last?.image === image && !shared) || stateRef.current !== InterviewState.ACTIVE) return
+
+    const snapshot: WhiteboardSnapshot = {
+      revision: (last?.revision ?? 0) + 1,
+      atMs: clockRef.current.elapsedMs(),
+      image,
+      shared,
+    }
+    snapshots.push(snapshot)
+    sessionRef.current?.sendImage(toImageAttachment(image), WHITEBOARD_SNAPSHOT_CAPTION(snapshot), shared)
+    if (shared) fullTranscriptRef.current += `${WHITEBOARD_TRANSCRIPT_MARKER(snapshot)}\n`
+    setWhiteboardStatus(`Version ${snapshot.revision} ${shared ? "shared" : "autosaved"}`)
+  }
+
+  const handleWhiteboardChange = (image: string | null) => {
+    whiteboardImageRef.current = image
+    if (whiteboardTimerRef.current) clearTimeout(whiteboardTimerRef.current)
+    if (!image) {
+      whiteboardTimerRef.current = null
+      setWhiteboardStatus("Board cleared")
+      return
+    }
+    setWhiteboardStatus("Unshared changes")
+    whiteboardTimerRef.current = setTimeout(() => shareWhiteboard(false), WHITEBOARD_SNAPSHOT_DEBOUNCE_MS)
+  }
+
+  // Retry with exponential backoff, seeding the new session with the transcript so far.
+  // Only interviews whose session was accepted at least once are retried; a first
+  // connection that fails or is rejected during setup (bad key, no access to the model,
+  // unsupported voice or language) goes straight to the error screen.
+  const handleConnectionLost = (sessionId: string, message: string) => {
+    if (currentSessionIdRef.current !== sessionId) return
+    // A failed connect can report through both the error event and the rejected start()
+    if (reconnectTimerRef.current) return
+
+    sessionRef.current?.close()
+    sessionRef.current = null
+    stopModelPlayback()
+
+    // Keep whatever was said before the drop so the resumed session can see it
+    commitPendingTurn(currentInputRef.current, currentOutputRef.current, "connection lost")
+
+    // Idle sessions time out while paused; wait for the candidate to resume before reconnecting
+    if (isPausedRef.current && hasConnectedRef.current) {
+      console.log("Session closed while paused, will reconnect on resume")
+      needsReconnectRef.current = true
+      return
+    }
+
+    const attempt = reconnectAttemptRef.current + 1
+    if (!hasConnectedRef.current || attempt > MAX_RECONNECT_ATTEMPTS) {
+      setError(message)
+      setState(InterviewState.ERROR)
+      stopAllMedia()
+      return
+    }
+
+    reconnectAttemptRef.current = attempt
+    setReconnectAttempt(attempt)
+    setState(InterviewState.RECONNECTING)
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS)
+    console.log(`Reconnecting in ${delay}ms (attempt ${attempt}/${MAX_RECONNECT_ATTEMPTS})`)
+
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null
+      attemptReconnect(sessionId)
+    }, delay)
+  }
+
+  const attemptReconnect = async (sessionId: string) => {
+    if (currentSessionIdRef.current !== sessionId) return
+
+    try {
+      const agenda = agendaRef.current
+      const stage = agenda?.currentStage()
+      const stageNote = agenda && stage ? STAGE_CHANGE_INSTRUCTION(stage, agenda.currentIndex(), agenda.stages.length) : ""
+      const wrapUp = wrapUpSentRef.current ? WRAP_UP_INSTRUCTION(minutesLeft()) : ""
+      const lastCode = codeRevisionsRef.current[codeRevisionsRef.current.length - 1]
+      const codeNote = lastCode ? CODE_SNAPSHOT_CONTEXT({ ...lastCode, submitted: false }) : ""
+      await connectSession(
+        sessionId,
+        baseInstructionRef.current + RESUME_SESSION_INSTRUCTION(fullTranscriptRef.current) + stageNote + wrapUp + codeNote,
+      )
+      // The new session has not seen the board yet
+      const lastBoard = whiteboardSnapshotsRef.current[whiteboardSnapshotsRef.current.length - 1]
+      if (lastBoard) {
+        sessionRef.current?.sendImage(
+          toImageAttachment(lastBoard.image),
+          WHITEBOARD_SNAPSHOT_CAPTION({ ...lastBoard, shared: false }),
+          false,
+        )
+      }
+    } catch (err: any) {
+      console.warn("Reconnect attempt failed:", err)
+      handleConnectionLost(sessionId, err.message || "Failed to reconnect.")
+    }
+  }
+
+  const handlePause = async () => {
+    if (stateRef.current !== InterviewState.ACTIVE) return
+
+    isPausedRef.current = true
+    clockRef.current.pause()
+    setState(InterviewState.PAUSED)
+
+    // Suspending freezes queued interviewer audio in place, and the rest of the reply is queued behind
+    // it, so resume picks up mid-sentence
+    try {
+      await outputAudioContextRef.current?.suspend()
+    } catch (e) {
+      console.warn("Output Ctx suspend warning", e)
+    }
+  }
+
+  const handleResume = async () => {
+    if (stateRef.current !== InterviewState.PAUSED) return
+    const sessionId = currentSessionIdRef.current
+
+    isPausedRef.current = false
+    clockRef.current.resume()
+
+    try {
+      await outputAudioContextRef.current?.resume()
+    } catch (e) {
+      console.warn("Output Ctx resume warning", e)
+    }
+
+    // The server dropped us while paused: reconnect with context now instead of earlier
+    if (needsReconnectRef.current) {
+      needsReconnectRef.current = false
+      reconnectAttemptRef.current = 1
+      setReconnectAttempt(1)
+      setState(InterviewState.RECONNECTING)
+      attemptReconnect(sessionId)
+      return
+    }
+
+    setState(InterviewState.ACTIVE)
+  }
+
   const startInterview = async (selectedConfig: InterviewConfig) => {
     if (!navigator.onLine) {
       setError("No internet connection. Please check your network.")
@@ -412,11 +984,23 @@ const App: React.FC = () => {
     currentInputRef.current = ""
     currentOutputRef.current = ""
     fullTranscriptRef.current = ""
+    playRepliesRef.current = selectedConfig.mode === InterviewMode.VOICE || selectedConfig.speakReplies
+    setDraftAnswer("")
+    hasConnectedRef.current = false
+    isPausedRef.current = false
+    needsReconnectRef.current = false
+    clockRef.current.reset()
+    recorderRef.current.reset()
+    prosodyRef.current.reset()
+    releasePlaybackAudio()
+    reconnectAttemptRef.current = 0
+    setReconnectAttempt(0)
+    wrapUpSentRef.current = false
+    timeBoxMsRef.current = selectedConfig.durationMinutes * 60000
+    setRemainingMs(timeBoxMsRef.current > 0 ? timeBoxMsRef.current : null)
     gestureService.reset()
 
-    const cleanResumeText = selectedConfig.resumeText
-      ? selectedConfig.resumeText.trim().slice(0, 4000).replace(/[{}]/g, "")
-      : ""
+    const cleanResumeText = selectedConfig.resumeText ? selectedConfig.resumeText.trim() : ""
 
     const finalConfig = {
       ...selectedConfig,
@@ -427,19 +1011,33 @@ const App: React.FC = () => {
     setState(InterviewState.CONNECTING)
     setError(null)
     setTranscripts([])
+    messagesRef.current = []
     setCurrentInputTrans("")
     setCurrentOutputTrans("")
     setTokenUsage(0)
 
     try {
-      // Start Gesture Analysis INDEPENDENTLY if enabled
-      // We do not await this, so it doesn't block audio start
-      if (finalConfig.enableGestures) {
-        startGestureAnalysis(newSessionId)
+      const provider = createConversationProvider()
+      if (finalConfig.mode === InterviewMode.VOICE && !provider.supportsAudio) {
+        throw new Error(`${provider.name} only supports typed answers. Switch the answer mode to "Type".`)
       }
+      providerRef.current = provider
 
-      const apiKey = process.env.API_KEY
-      if (!apiKey) throw new Error("API Key not found in environment")
+      // Camera sharing is optional, so an unsupported backend just runs without it
+      const shareCamera = finalConfig.shareCamera && provider.supportsVideo
+      if (finalConfig.shareCamera && !shareCamera) {
+        console.warn(`${provider.name} cannot receive video; the interviewer will not see the camera`)
+        setConfig({ ...finalConfig, shareCamera: false })
+      }
+
+      // Start the camera INDEPENDENTLY if needed
+      // We do not await this, so it doesn't block audio start
+      if (finalConfig.enableGestures || shareCamera) {
+        startCamera(newSessionId, {
+          gestures: finalConfig.enableGestures,
+          frames: shareCamera ? { rate: finalConfig.cameraFrameRate, width: finalConfig.cameraFrameWidth } : null,
+        })
+      }
 
       // 1. Initialize Audio Contexts
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
@@ -483,272 +1081,124 @@ const App: React.FC = () => {
       outputAnalyserRef.current = outputAnalyser
       outputAnalyser.connect(outputCtx.destination)
 
-      // 3. Microphone
-      try {
-        // Explicitly enable echo cancellation and noise suppression
-        const stream = await navigator.mediaDevices.getUserMedia({
-          audio: {
-            echoCancellation: true,
-            noiseSuppression: true,
-            autoGainControl: true,
-          },
-        })
-        streamRef.current = stream
-        const source = inputCtx.createMediaStreamSource(stream)
-        source.connect(inputAnalyser)
-
-        // Use a slightly larger buffer to ensure stable downsampling math
-        const processor = inputCtx.createScriptProcessor(4096, 1, 1)
-        processorRef.current = processor
-
-        source.connect(processor)
-        processor.connect(inputCtx.destination)
-      } catch (micErr) {
-        console.error("Microphone access denied:", micErr)
-        throw new Error("Microphone access denied. Please allow permissions.")
-      }
-
-      // 4. Gemini Live Connection
-      const ai = new GoogleGenAI({ apiKey })
+      // 3. Microphone (text mode answers are typed, so no capture at all)
+      if (finalConfig.mode === InterviewMode.VOICE) {
+        try {
+          // Explicitly enable echo cancellation and noise suppression
+          const stream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+              echoCancellation: true,
+              noiseSuppression: true,
+              autoGainControl: true,
+            },
+          })
+          streamRef.current = stream
+        } catch (micErr) {
+          console.error("Microphone access denied:", micErr)
+          throw new Error("Microphone access denied. Please allow permissions, or switch to typed answers.")
+        }
 
-      const sysInstruction = SYSTEM_INSTRUCTION_TEMPLATE(
-        finalConfig.type,
-        finalConfig.persona,
-        finalConfig.context,
-        finalConfig.resumeText,
-      )
+        const micSource = inputCtx.createMediaStreamSource(streamRef.current)
+        micSource.connect(inputAnalyser)
 
-      let sessionResolver: (value: any) => void
-      const sessionPromiseWrapper = new Promise<any>((resolve) => {
-        sessionResolver = resolve
-      })
-      sessionRef.current = sessionPromiseWrapper
-
-      const connection = ai.live.connect({
-        model: "gemini-2.5-flash-native-audio-preview-09-2025",
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: "Fenrir" } },
-          },
-          systemInstruction: sysInstruction,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        },
-        callbacks: {
-          onopen: () => {
+        // Resampling to 16kHz and framing happen in the capture worklet, off the main thread
+        processorRef.current = await startMicrophoneCapture(inputCtx, micSource, {
+          targetSampleRate: CAPTURE_SAMPLE_RATE,
+          onFrame: (frame) => {
+            // CRITICAL: Check Session ID
             if (currentSessionIdRef.current !== newSessionId) return
-            console.log("Session Opened", newSessionId)
-            setState(InterviewState.ACTIVE)
-
-            if (processorRef.current) {
-              processorRef.current.onaudioprocess = (e) => {
-                // CRITICAL: Check Session ID
-                if (currentSessionIdRef.current !== newSessionId) return
-
-                const inputData = e.inputBuffer.getChannelData(0)
-
-                // --- DOWNSAMPLING LOGIC (48kHz -> 16kHz) ---
-                // This reduces the data payload by ~66%, drastically reducing network latency
-                // and speeding up the text transcription response on the UI.
-                const targetSampleRate = 16000
-                const sourceSampleRate = inputCtx.sampleRate
-
-                let finalData = inputData
-
-                if (sourceSampleRate > targetSampleRate) {
-                  const ratio = sourceSampleRate / targetSampleRate
-                  const newLength = Math.floor(inputData.length / ratio)
-                  finalData = new Float32Array(newLength)
-                  for (let i = 0; i < newLength; i++) {
-                    finalData[i] = inputData[Math.floor(i * ratio)]
-                  }
-                }
-
-                // Create blob with CORRECT 16kHz header
-                const pcmBlob = createPcmBlob(finalData, targetSampleRate)
-
-                sessionPromiseWrapper.then((session) => {
-                  if (currentSessionIdRef.current !== newSessionId) return
-                  try {
-                    session.sendRealtimeInput({ media: pcmBlob })
-                  } catch (err) {
-                    console.warn("Failed to send audio chunk:", err)
-                  }
-                })
-              }
-            }
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (currentSessionIdRef.current !== newSessionId) return
-
-            // --- 1. HANDLE TEXT IMMEDIATELY WITH FLUSHED UPDATES (Zero UI Latency) ---
 
-            if (msg.serverContent?.outputTranscription?.text) {
-              const text = msg.serverContent.outputTranscription.text
-              currentOutputRef.current += text
-              flushSync(() => {
-                setCurrentOutputTrans(currentOutputRef.current)
-              })
-            }
+            // Nothing is sent while paused
+            if (isPausedRef.current) return
 
-            if (msg.serverContent?.inputTranscription?.text) {
-              const text = msg.serverContent.inputTranscription.text
-              currentInputRef.current += text
-              flushSync(() => {
-                setCurrentInputTrans(currentInputRef.current)
-              })
+            const frameMs = (frame.length / CAPTURE_SAMPLE_RATE) * 1000
+            recorderRef.current.addCandidateFrame(frame, clockRef.current.elapsedMs() - frameMs)
+            if (recorderRef.current.isRecording()) {
+              prosodyRef.current.addFrame(frame, CAPTURE_SAMPLE_RATE, clockRef.current.elapsedMs() - frameMs)
             }
 
-            // Handle turn completion
-            if (msg.serverContent?.turnComplete) {
-              const input = currentInputRef.current
-              const output = currentOutputRef.current
-
-              if (input.trim() || output.trim()) {
-                // This prevents React from re-rendering massive transcript arrays on every turn
-                addMessagesToBatch([
-                  { role: "user", text: input },
-                  { role: "model", text: output },
-                ])
-
-                const newTokens = Math.ceil((input.length + output.length) / 3.5)
-                setTokenUsage((prev) => prev + newTokens)
-
-                fullTranscriptRef.current += `Candidate: ${input}\nInterviewer: ${output}\n`
-              }
-
-              // Clear state with flushed updates for instant clear
-              currentInputRef.current = ""
-              currentOutputRef.current = ""
-              flushSync(() => {
-                setCurrentInputTrans("")
-                setCurrentOutputTrans("")
-              })
-            }
-
-            // Handle Interruption
-            if (msg.serverContent?.interrupted) {
-              if (sourcesRef.current) {
-                sourcesRef.current.forEach((s) => {
-                  try {
-                    s.stop()
-                  } catch (e) {}
-                })
-                sourcesRef.current.clear()
-              }
-              nextStartTimeRef.current = outputAudioContextRef.current?.currentTime || 0
-
-              const input = currentInputRef.current
-              const output = currentOutputRef.current
-
-              if (input.trim() || output.trim()) {
-                addMessagesToBatch([
-                  { role: "user", text: input },
-                  { role: "model", text: output + " (interrupted)" },
-                ])
-                fullTranscriptRef.current += `Candidate: ${input}\nInterviewer: ${output} (interrupted)\n`
-
-                currentInputRef.current = ""
-                currentOutputRef.current = ""
-                flushSync(() => {
-                  setCurrentInputTrans("")
-                  setCurrentOutputTrans("")
-                })
-              }
-            }
-
-            // --- 2. HANDLE AUDIO ASYNCHRONOUSLY (Does not block text UI) ---
-            const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data
-            if (base64Audio) {
-              // We purposely do not await this immediately if we want text to paint first
-              // But React state updates are batched anyway.
-              // The key is that we already called setCurrent... above.
-
-              if (outputAudioContextRef.current && outputAudioContextRef.current.state === "running") {
-                const ctx = outputAudioContextRef.current
-
-                try {
-                  const audioBuffer = await decodeAudioData(base64ToUint8Array(base64Audio), ctx, 24000, 1)
-
-                  // Recalculate timing to prevent overlap or gaps
-                  nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime)
-
-                  const source = ctx.createBufferSource()
-                  source.buffer = audioBuffer
-
-                  if (outputAnalyserRef.current) {
-                    try {
-                      source.connect(outputAnalyserRef.current)
-                    } catch (e) {}
-                  } else {
-                    try {
-                      source.connect(ctx.destination)
-                    } catch (e) {}
-                  }
-
-                  source.addEventListener("ended", () => {
-                    if (sourcesRef.current) sourcesRef.current.delete(source)
-                  })
-
-                  source.start(nextStartTimeRef.current)
-                  nextStartTimeRef.current += audioBuffer.duration
-                  if (sourcesRef.current) sourcesRef.current.add(source)
-                } catch (decodeErr) {
-                  console.warn("Audio decode error", decodeErr)
-                }
-              }
-            }
+            // Dropped while reconnecting, there is nobody to send to
+            sessionRef.current?.sendAudio(createPcmBlob(frame, CAPTURE_SAMPLE_RATE))
           },
-          onclose: () => {
-            console.log("Session Closed", newSessionId)
-            // Only treat as error if we didn't initiate the close (currentSessionIdRef still matches)
-            if (currentSessionIdRef.current === newSessionId) {
-              setState(InterviewState.ERROR)
-              setError("Session closed unexpectedly by server.")
-              stopAllMedia()
-            }
-          },
-          onerror: (e) => {
-            // IGNORE errors from old sessions to prevent race conditions
-            if (currentSessionIdRef.current !== newSessionId) {
-              console.warn("Ignored error from old session:", e)
-              return
-            }
+        })
+      }
 
-            console.error("Live API Error:", e)
+      // 4. Live Session
+      const persona = findPersona(finalConfig.persona)
+      setPersonaName(persona.name)
+      const role = findRole(finalConfig.type)
+      roleRef.current = role
+      setRoleTitle(role.title)
+      baseInstructionRef.current = SYSTEM_INSTRUCTION_TEMPLATE(
+        role,
+        persona,
+        finalConfig.context,
+        finalConfig.resumeText ? parseResume(finalConfig.resumeText) : undefined,
+        finalConfig.mode,
+      )
 
-            const errorStr = e.toString()
-            const isNetworkError = errorStr.includes("Network error") || errorStr.includes("network")
-            const isPermissionError = errorStr.includes("permission")
+      const language = findLanguage(finalConfig.language)
+      const nativeLanguage = finalConfig.nativeLanguage ? findLanguage(finalConfig.nativeLanguage) : undefined
+      if (language.code !== DEFAULT_LANGUAGE || nativeLanguage) {
+        baseInstructionRef.current += LANGUAGE_INSTRUCTION(language, nativeLanguage)
+      }
 
-            let errorMsg = "Connection was interrupted."
-            if (isNetworkError) {
-              errorMsg = "Connection interrupted due to network instability. Please check your internet."
-            } else if (isPermissionError) {
-              errorMsg = "Session expired or permission denied. Please reset and try again."
-            }
+      const agenda = new AgendaTracker(buildAgenda(finalConfig, persona))
+      agenda.start(0)
+      agendaRef.current = agenda
+      setAgendaProgress({ index: 0, answers: 0 })
+      baseInstructionRef.current += AGENDA_INSTRUCTION(agenda.stages)
+
+      const bank = finalConfig.questionBankId
+        ? loadQuestionBanks().find((b) => b.id === finalConfig.questionBankId)
+        : undefined
+      bankQuestionsRef.current = bank ? selectSessionQuestions(bank, role.title, finalConfig.bankDifficulty) : []
+      if (bankQuestionsRef.current.length) {
+        baseInstructionRef.current += QUESTION_BANK_INSTRUCTION(bankQuestionsRef.current)
+      }
 
-            setError(errorMsg)
-            setState(InterviewState.ERROR)
-            stopAllMedia()
-          },
-        },
-      })
+      const jobDescription = finalConfig.jobDescriptionText ? parseJobDescription(finalConfig.jobDescriptionText) : null
+      jobDescriptionRef.current = jobDescription?.requirements.length ? jobDescription : null
+      if (jobDescriptionRef.current) {
+        baseInstructionRef.current += JOB_DESCRIPTION_INSTRUCTION(jobDescriptionRef.current)
+      }
 
-      connection.then((session) => {
-        if (currentSessionIdRef.current !== newSessionId) {
-          console.log("Session connected AFTER cancellation. Closing immediately.")
-          try {
-            session.close()
-          } catch (e) {}
-          return
-        }
+      const codingLanguage = role.codingInterview ? finalConfig.codingLanguage : null
+      codeRef.current = { text: "", language: codingLanguage ?? "" }
+      codeRevisionsRef.current = []
+      setCode("")
+      setCodeStatus("")
+      setCodeLanguage(codingLanguage)
+      if (codingLanguage) {
+        baseInstructionRef.current += CODING_INSTRUCTION(codingLanguage)
+      }
 
-        sessionResolver(session)
-        activeSessionRef.current = session
-      })
+      whiteboardImageRef.current = null
+      whiteboardSnapshotsRef.current = []
+      setWhiteboardStatus("")
+      setWhiteboardEnabled(finalConfig.enableWhiteboard)
+      if (finalConfig.enableWhiteboard) {
+        baseInstructionRef.current += WHITEBOARD_INSTRUCTION
+      }
+      if (shareCamera) {
+        baseInstructionRef.current += CAMERA_INSTRUCTION
+      }
+      fullTranscriptRef.current = `${STAGE_TRANSCRIPT_MARKER(agenda.stages[0])}\n`
+
+      speechSettingsRef.current = {
+        model: finalConfig.liveModel,
+        voiceName: finalConfig.voiceName,
+        speakingRate: finalConfig.speakingRate,
+        // Language learners pause to find words, so mixed mode never uses the brisk setting
+        endOfTurnSilenceMs:
+          INTERRUPTION_SILENCE_MS[nativeLanguage && persona.interruptionTolerance === "brisk" ? "balanced" : persona.interruptionTolerance],
+        // Code-switching answers transcribe better without a fixed language
+        languageCode: nativeLanguage ? undefined : language.code,
+      }
+      await connectSession(newSessionId, baseInstructionRef.current)
     } catch (err: any) {
+      // A newer session (or a reset) owns the UI now
+      if (currentSessionIdRef.current !== newSessionId) return
       console.error(err)
       setError(err.message || "Failed to initialize")
       setState(InterviewState.ERROR)
@@ -756,39 +1206,67 @@ const App: React.FC = () => {
     }
   }
 
-  const sanitizeAndParseJSON = (jsonText: string): any => {
-    // 1. Remove markdown code blocks if any
-    let cleaned = jsonText.replace(/```json/g, "").replace(/```/g, "")
-
-    // 2. Find the *first* '{' and the *last* '}' to handle introductory text
-    const firstBrace = cleaned.indexOf("{")
-    const lastBrace = cleaned.lastIndexOf("}")
+  const handleSendAnswer = (e: React.FormEvent) => {
+    e.preventDefault()
+    const text = draftAnswer.trim()
+    if (!text || !sessionRef.current || state !== InterviewState.ACTIVE) return
 
-    if (firstBrace !== -1 && lastBrace !== -1) {
-      cleaned = cleaned.substring(firstBrace, lastBrace + 1)
-    } else {
-      // Fallback: If no braces found, this is definitely not JSON
-      throw new Error("No JSON object found in response")
-    }
-
-    // 3. Attempt parsing
-    try {
-      return JSON.parse(cleaned)
-    } catch (e) {
-      console.warn("Standard JSON parse failed, attempting recovery...", cleaned)
-      // 4. Attempt to fix common JSON trailing comma issues (e.g. "item", } -> "item" })
-      cleaned = cleaned.replace(/,\s*}/g, "}").replace(/,\s*]/g, "]")
-      try {
-        return JSON.parse(cleaned)
-      } catch (e2) {
-        throw e // Give up
-      }
-    }
+    // The typed answer closes the candidate's turn, so cut off any reply still playing
+    stopModelPlayback()
+    recorderRef.current.markCandidateText(clockRef.current.elapsedMs())
+    sessionRef.current.sendText(text)
+    setDraftAnswer("")
   }
 
   const handleEndInterview = async () => {
     // Capture metrics BEFORE stopping media completely
     const gestureResults = config?.enableGestures ? gestureService.getMetrics() : undefined
+    const gestureEvents = config?.enableGestures ? gestureService.getEvents() : undefined
+    const durationSeconds = Math.round(clockRef.current.elapsedMs() / 1000)
+    const stageSummaries = agendaRef.current?.summarize(clockRef.current.elapsedMs()) ?? []
+    recorderRef.current.stop()
+
+    // The editor's final state counts even if it was never shared
+    const codeRevisions = [...codeRevisionsRef.current]
+    const lastRevision = codeRevisions[codeRevisions.length - 1]
+    const finalCode = codeRef.current
+    if (finalCode.text.trim() && (lastRevision?.code !== finalCode.text || lastRevision.language !== finalCode.language)) {
+      codeRevisions.push({
+        revision: (lastRevision?.revision ?? 0) + 1,
+        atMs: clockRef.current.elapsedMs(),
+        language: finalCode.language,
+        code: finalCode.text,
+        submitted: false,
+      })
+    }
+
+    // Same for a board drawn since the last snapshot
+    const boardSnapshots = [...whiteboardSnapshotsRef.current]
+    const lastBoard = boardSnapshots[boardSnapshots.length - 1]
+    const finalBoard = whiteboardImageRef.current
+    if (finalBoard && lastBoard?.image !== finalBoard) {
+      boardSnapshots.push({
+        revision: (lastBoard?.revision ?? 0) + 1,
+        atMs: clockRef.current.elapsedMs(),
+        image: finalBoard,
+        shared: false,
+      })
+    }
+
+    // Pair up questions and answers from every completed turn
+    flushBatch()
+    const sessionMessages = messagesRef.current
+    const answerSegments = segmentAnswers(sessionMessages)
+
+    // Delivery is measured locally, so it is reported even if the analysis call fails
+    const delivery =
+      analyzeDelivery(
+        sessionMessages,
+        recorderRef.current.speechActivity(),
+        clockRef.current.elapsedMs(),
+        findLanguage(config?.language).code.startsWith("en") ? FILLER_PHRASES : null,
+      ) ?? undefined
+    const prosody = prosodyRef.current.summarize(sessionMessages) ?? undefined
 
     // Mark session as inactive to stop incoming messages
     currentSessionIdRef.current = ""
@@ -796,22 +1274,41 @@ const App: React.FC = () => {
     await stopAllMedia()
     setState(InterviewState.ANALYZING)
 
+    if (recorderRef.current.hasAudio()) {
+      try {
+        const wav = recorderRef.current.exportMixedWav()
+        playbackUrlRef.current = URL.createObjectURL(new Blob([wav], { type: "audio/wav" }))
+        setRecordingPlayback({
+          audioUrl: playbackUrlRef.current,
+          durationMs: recorderRef.current.durationMs(),
+          gestureEvents,
+        })
+      } catch (e) {
+        console.error("Preparing playback failed:", e)
+      }
+    }
+
     const finalTranscript =
       fullTranscriptRef.current +
       (currentInputRef.current ? `\nCandidate: ${currentInputRef.current}` : "") +
       (currentOutputRef.current ? `\nInterviewer: ${currentOutputRef.current}` : "")
 
-    // Default fallback object
-    const emptyMetrics = { technical: 0, communication: 0, confidence: 0, clarity: 0, problemSolving: 0 }
+    // Default fallback: every competency of the role at 0
+    const role = roleRef.current ?? findRole(config?.type ?? "")
+    const emptyCompetencies = toCompetencyScores(role, null)
 
-    if (!finalTranscript || finalTranscript.length < 10) {
+    // Stage, code and whiteboard markers alone do not count as conversation
+    const spokenTranscript = finalTranscript.replace(/^--- (STAGE|CODE SUBMITTED|WHITEBOARD SHARED)[ :].* ---$/gm, "").trim()
+
+    if (!spokenTranscript || spokenTranscript.length < 10) {
       const emptyData: FeedbackData = {
-        score: 0,
+        score: null,
         summary: "No meaningful conversation was recorded. Please check microphone settings.",
         strengths: ["N/A"],
         improvements: ["Ensure microphone is enabled", "Check network connection"],
-        metrics: emptyMetrics,
+        competencies: emptyCompetencies,
         gestureMetrics: gestureResults,
+        durationSeconds,
       }
 
       await new Promise((resolve) => setTimeout(resolve, 2000))
@@ -824,53 +1321,70 @@ const App: React.FC = () => {
     }
 
     try {
-      const apiKey = process.env.API_KEY
-      if (!apiKey) throw new Error("API Key missing")
-
-      const ai = new GoogleGenAI({ apiKey })
-      const prompt = `${FEEDBACK_GENERATION_PROMPT}\n\nTRANSCRIPT:\n${finalTranscript}`
-
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-          responseMimeType: "application/json",
-          maxOutputTokens: 8192,
-        },
+      const feedbackProvider = createFeedbackProvider()
+      const timeBox = config?.durationMinutes ? ` of a ${config.durationMinutes}m time box` : ""
+      const durationNote = `INTERVIEW DURATION (pauses excluded): ${Math.floor(durationSeconds / 60)}m ${durationSeconds % 60}s${timeBox}`
+      const stageNote = stageSummaries.length ? STAGE_FEEDBACK_PROMPT(stageSummaries.map((s) => s.stage)) : ""
+      const bankQuestions = bankQuestionsRef.current
+      const bankNote = bankQuestions.length ? BANK_FEEDBACK_PROMPT(bankQuestions) : ""
+      const jobDescription = jobDescriptionRef.current
+      const jobFitNote = jobDescription ? JOB_FIT_FEEDBACK_PROMPT(jobDescription) : ""
+      const language = findLanguage(config?.language)
+      const nativeLanguage = config?.nativeLanguage ? findLanguage(config.nativeLanguage) : undefined
+      const languageNote =
+        language.code !== DEFAULT_LANGUAGE || nativeLanguage ? FEEDBACK_LANGUAGE_PROMPT(language, nativeLanguage) : ""
+      const codeNote = codeRevisions.length ? CODE_FEEDBACK_PROMPT : ""
+      const codeHistory = codeRevisions.length ? CODE_HISTORY_TRANSCRIPT(codeRevisions) : ""
+      const whiteboardNote = boardSnapshots.length ? WHITEBOARD_FEEDBACK_PROMPT(boardSnapshots) : ""
+      const answerNote = answerSegments.length ? ANSWER_FEEDBACK_PROMPT : ""
+      const confidenceNote = prosody ? CONFIDENCE_FEEDBACK_PROMPT(prosody) : ""
+      const answerPairs = answerSegments.length ? ANSWER_PAIRS_TRANSCRIPT(answerSegments) : ""
+      const prompt = `${FEEDBACK_GENERATION_PROMPT(role)}\n${stageNote}${bankNote}${jobFitNote}${languageNote}${codeNote}${whiteboardNote}${answerNote}${confidenceNote}\n${durationNote}\n\nTRANSCRIPT:\n${finalTranscript}\n${codeHistory}${answerPairs}`
+      // The final diagram goes along as an image
+      const images = boardSnapshots.length ? [toImageAttachment(boardSnapshots[boardSnapshots.length - 1].image)] : []
+
+      const schema = buildFeedbackSchema({
+        competencyIds: role.competencies.map((c) => c.id),
+        stageIds: stageSummaries.map((s) => s.stage.id),
+        bankQuestionIds: bankQuestions.map((q) => q.id),
+        requirementIds: jobDescription?.requirements.map((r) => r.id),
+        languageCoaching: !!nativeLanguage,
+        code: codeRevisions.length > 0,
+        whiteboard: boardSnapshots.length > 0,
+        vocalConfidence: !!prosody,
+        answerCount: answerSegments.length,
       })
 
-      const jsonText = response.text || "{}"
-      let feedbackData: FeedbackData
-
-      try {
-        const parsed = sanitizeAndParseJSON(jsonText)
-
-        feedbackData = {
-          score: typeof parsed.score === "number" ? parsed.score : 0,
-          summary: parsed.summary || "Analysis complete.",
-          strengths: Array.isArray(parsed.strengths) ? parsed.strengths : ["No specific strengths detected"],
-          improvements: Array.isArray(parsed.improvements)
-            ? parsed.improvements
-            : ["No specific improvements detected"],
-          metrics: {
-            technical: parsed.metrics?.technical || 0,
-            communication: parsed.metrics?.communication || 0,
-            confidence: parsed.metrics?.confidence || 0,
-            clarity: parsed.metrics?.clarity || 0,
-            problemSolving: parsed.metrics?.problemSolving || 0,
-          },
-          gestureMetrics: gestureResults, // Attach gesture data
-        }
-      } catch (parseError) {
-        console.error("JSON Parse Error:", parseError)
-        feedbackData = {
-          score: 0,
-          summary: "The AI analyzed the interview but returned an invalid format.",
-          strengths: ["Analysis Error"],
-          improvements: ["Please try again"],
-          metrics: emptyMetrics,
-          gestureMetrics: gestureResults,
-        }
+      // Only fields that passed validation are used; anything else is reported as missing, not scored as 0
+      const { data: parsed, invalidFields, attempts } = await generateValidatedFeedback(feedbackProvider, prompt, {
+        images,
+        schema,
+      })
+      if (invalidFields.length) console.warn(`Feedback incomplete after ${attempts} attempt(s):`, invalidFields)
+      // Sections this session did not ask for are ignored even if the model sent them
+      const valid = (field: string) => !!schema.properties?.[field] && field in parsed
+
+      const feedbackData: FeedbackData = {
+        score: valid("score") ? (parsed.score as number) : null,
+        summary: valid("summary")
+          ? (parsed.summary as string)
+          : "The analysis did not return a usable summary. The sections below show what could be assessed.",
+        strengths: valid("strengths") ? (parsed.strengths as string[]) : [],
+        improvements: valid("improvements") ? (parsed.improvements as string[]) : [],
+        competencies: valid("competencies") ? toCompetencyScores(role, parsed.competencies) : [],
+        gestureMetrics: gestureResults, // Attach gesture data
+        durationSeconds,
+        delivery,
+        prosody,
+        confidence: valid("vocalConfidence") ? toConfidenceFeedback(parsed.vocalConfidence) : undefined,
+        stages: valid("stages") ? toStageFeedback(stageSummaries, parsed.stages) : undefined,
+        bankQuestions: valid("bankQuestions") ? toBankQuestionFeedback(bankQuestions, parsed.bankQuestions) : undefined,
+        jobFit: jobDescription && valid("jobFit") ? toJobFitFeedback(jobDescription, parsed.jobFit) : undefined,
+        languageFeedback: valid("languageFeedback") ? toLanguageFeedback(parsed.languageFeedback) ?? undefined : undefined,
+        coding: valid("codeQuality") ? toCodingFeedback(codeRevisions, parsed.codeQuality) : undefined,
+        whiteboard: valid("whiteboard") ? toWhiteboardFeedback(boardSnapshots, parsed.whiteboard) : undefined,
+        answers: valid("answers") ? toAnswerFeedback(answerSegments, sessionMessages, parsed.answers) : undefined,
+        missingSections: invalidFields.length ? invalidFields : undefined,
       }
 
       if (stateRef.current === InterviewState.ANALYZING) {
@@ -882,12 +1396,15 @@ const App: React.FC = () => {
       if (stateRef.current === InterviewState.ANALYZING) {
         // Even in catastrophic error, try to show gestures if we have them
         const emergencyData: FeedbackData = {
-          score: 0,
+          score: null,
           summary: "Network or API error during analysis.",
           strengths: ["N/A"],
           improvements: ["N/A"],
-          metrics: emptyMetrics,
+          competencies: [],
           gestureMetrics: gestureResults,
+          durationSeconds,
+          delivery,
+          prosody,
         }
         setFeedback(emergencyData)
         setState(InterviewState.FEEDBACK)
@@ -895,14 +1412,14 @@ const App: React.FC = () => {
     }
   }
 
-  function base64ToUint8Array(base64: string): Uint8Array {
-    const binaryString = atob(base64)
-    const len = binaryString.length
-    const bytes = new Uint8Array(len)
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i)
+  const handleDownloadRecording = () => {
+    try {
+      const bundle = createSessionBundle(recorderRef.current, transcripts)
+      const stamp = new Date().toISOString().slice(0, 16).replace(/[:T]/g, "-")
+      downloadBlob(bundle, `interview-${stamp}.zip`)
+    } catch (e) {
+      console.error("Recording export failed:", e)
     }
-    return bytes
   }
 
   const handleHardReset = async () => {
@@ -927,15 +1444,19 @@ const App: React.FC = () => {
       streamRef.current = null
       videoStreamRef.current = null
       processorRef.current = null
-      activeSessionRef.current = null
+      sessionRef.current = null
       sourcesRef.current.clear()
 
       nextStartTimeRef.current = 0
       currentInputRef.current = ""
       currentOutputRef.current = ""
       fullTranscriptRef.current = ""
+      recorderRef.current.reset()
+      prosodyRef.current.reset()
+      releasePlaybackAudio()
 
       setTranscripts([])
+      messagesRef.current = []
       setCurrentInputTrans("")
       setCurrentOutputTrans("")
       setFeedback(null)
@@ -958,6 +1479,44 @@ const App: React.FC = () => {
     }
   }
 
+  // The interview view stays up while we reconnect so the transcript remains visible
+  const isInterviewLive =
+    state === InterviewState.ACTIVE || state === InterviewState.RECONNECTING || state === InterviewState.PAUSED
+
+  // Time-boxed interviews: count down on the session clock (pauses excluded), cue the
+  // interviewer to wrap up shortly before the end and finish automatically at zero
+  useEffect(() => {
+    if (!isInterviewLive || !config || timeBoxMsRef.current <= 0) return
+
+    const tick = () => {
+      const remaining = Math.max(0, timeBoxMsRef.current - clockRef.current.elapsedMs())
+      setRemainingMs(remaining)
+
+      if (remaining <= 0) {
+        clearInterval(timer)
+        handleEndInterview()
+        return
+      }
+
+      // While reconnecting this retries on the next tick, once the new session is up
+      if (!wrapUpSentRef.current && remaining <= config.wrapUpMinutes * 60000 && sessionRef.current?.isActive()) {
+        wrapUpSentRef.current = true
+        sessionRef.current.sendInstruction(WRAP_UP_INSTRUCTION(minutesLeft()), "wrapUp")
+        // The wrap-up cue already asks for candidate questions, so just move the tracker along
+        enterStage(agendaRef.current?.skipToLast(clockRef.current.elapsedMs()) ?? null, false)
+      }
+    }
+
+    const timer = setInterval(tick, 1000)
+    tick()
+    return () => clearInterval(timer)
+  }, [isInterviewLive, config])
+
+  const formatCountdown = (ms: number) => {
+    const total = Math.ceil(ms / 1000)
+    return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, "0")}`
+  }
+
   return (
     <div className="min-h-screen bg-slate-900 text-white relative selection:bg-blue-500 selection:text-white font-inter">
       <div className="absolute top-0 left-0 w-full h-full overflow-hidden z-0 pointer-events-none fixed">
@@ -965,10 +1524,11 @@ const App: React.FC = () => {
         <div className="absolute bottom-[-10%] left-[-10%] w-[500px] h-[500px] bg-purple-600/20 rounded-full blur-[100px]" />
       </div>
 
-      {/* Hidden Video Element for Gesture Analysis */}
+      {/* Camera preview for gesture analysis and frames shared with the interviewer */}
       <video
         ref={videoRef}
-        className={`fixed top-4 right-4 w-32 h-24 object-cover rounded-xl border-2 border-indigo-500 shadow-2xl z-50 ${state === InterviewState.ACTIVE && config?.enableGestures && !showCountdown ? "block" : "hidden"}`}
+        title={config?.shareCamera ? "The interviewer can see this camera" : undefined}
+        className={`fixed top-4 right-4 w-32 h-24 object-cover rounded-xl border-2 ${config?.shareCamera ? "border-rose-500" : "border-indigo-500"} shadow-2xl z-50 ${isInterviewLive && (config?.enableGestures || config?.shareCamera) && !showCountdown ? "block" : "hidden"}`}
         muted
         playsInline
         style={{ transform: "scaleX(-1)" }} // Mirror effect
@@ -1023,20 +1583,52 @@ const App: React.FC = () => {
               </div>
             )}
 
-          {state === InterviewState.ACTIVE && !showCountdown && (
-            <div className="w-full max-w-4xl animate-fade-in flex flex-col gap-4 md:gap-6">
+          {isInterviewLive && !showCountdown && (
+            <div className={`w-full ${codeLanguage || whiteboardEnabled ? "max-w-7xl" : "max-w-4xl"} animate-fade-in flex flex-col gap-4 md:gap-6`}>
               <div className="relative w-full h-64 sm:h-80 bg-slate-800/50 rounded-3xl overflow-hidden border border-slate-700/50 shadow-2xl">
-                <AudioVisualizer analyser={inputAnalyserRef.current} isActive={true} color="#60a5fa" />
+                <AudioVisualizer
+                  analyser={config?.mode === InterviewMode.TEXT ? outputAnalyserRef.current : inputAnalyserRef.current}
+                  isActive={state === InterviewState.ACTIVE}
+                  color="#60a5fa"
+                />
 
-                <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10">
-                  <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
-                  <span className="text-xs font-medium text-white tracking-wide">LIVE</span>
-                </div>
+                {state === InterviewState.ACTIVE ? (
+                  <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2 bg-black/40 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10">
+                    <div className="w-2 h-2 rounded-full bg-red-500 animate-pulse shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
+                    <span className="text-xs font-medium text-white tracking-wide">LIVE</span>
+                  </div>
+                ) : state === InterviewState.PAUSED ? (
+                  <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2 bg-slate-500/30 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10">
+                    <PauseIcon className="w-3 h-3 text-slate-200" />
+                    <span className="text-xs font-medium text-slate-200 tracking-wide">PAUSED</span>
+                  </div>
+                ) : (
+                  <div className="absolute top-4 left-4 sm:top-6 sm:left-6 flex items-center gap-2 bg-amber-500/20 backdrop-blur-md px-3 py-1.5 rounded-full border border-amber-500/30">
+                    <div className="w-3 h-3 border-2 border-amber-400 border-t-transparent rounded-full animate-spin" />
+                    <span className="text-xs font-medium text-amber-200 tracking-wide">
+                      RECONNECTING ({reconnectAttempt}/{MAX_RECONNECT_ATTEMPTS})
+                    </span>
+                  </div>
+                )}
+
+                {remainingMs !== null && (
+                  <div
+                    className={`absolute top-4 right-4 sm:top-6 sm:right-6 flex items-center gap-1.5 backdrop-blur-md px-3 py-1.5 rounded-full border ${
+                      remainingMs <= (config?.wrapUpMinutes ?? 0) * 60000
+                        ? "bg-amber-500/20 border-amber-500/30 text-amber-200"
+                        : "bg-black/40 border-white/10 text-white"
+                    }`}
+                    title="Time left (pauses excluded)"
+                  >
+                    <ClockIcon className="w-3.5 h-3.5" />
+                    <span className="text-xs font-mono font-medium tabular-nums">{formatCountdown(remainingMs)}</span>
+                  </div>
+                )}
 
                 <div className="absolute bottom-4 left-4 sm:bottom-6 sm:left-6 max-w-[65%] sm:max-w-[70%]">
-                  <h3 className="text-xl sm:text-2xl font-bold text-white mb-1 truncate">{config?.type}</h3>
+                  <h3 className="text-xl sm:text-2xl font-bold text-white mb-1 truncate">{roleTitle}</h3>
                   <div className="text-slate-400 text-sm flex flex-wrap items-center gap-2">
-                    <span className="truncate max-w-[150px]">{config?.persona}</span>
+                    <span className="truncate max-w-[150px]">{personaName}</span>
                     {config?.context && (
                       <span className="text-blue-400 text-[10px] sm:text-xs px-2 py-0.5 bg-blue-500/10 rounded border border-blue-500/20 whitespace-nowrap">
                         Context
@@ -1047,6 +1639,17 @@ const App: React.FC = () => {
                         Resume
                       </span>
                     )}
+                    {config && (config.language !== DEFAULT_LANGUAGE || config.nativeLanguage) && (
+                      <span className="text-violet-400 text-[10px] sm:text-xs px-2 py-0.5 bg-violet-500/10 rounded border border-violet-500/20 whitespace-nowrap">
+                        {findLanguage(config.language).nativeName}
+                        {config.nativeLanguage && ` + ${findLanguage(config.nativeLanguage).nativeName}`}
+                      </span>
+                    )}
+                    {config?.mode === InterviewMode.TEXT && (
+                      <span className="text-sky-400 text-[10px] sm:text-xs px-2 py-0.5 bg-sky-500/10 rounded border border-sky-500/20 whitespace-nowrap">
+                        Typed Answers
+                      </span>
+                    )}
                     {config?.enableGestures && (
                       <span className="text-indigo-400 text-[10px] sm:text-xs px-2 py-0.5 bg-indigo-500/10 rounded border border-indigo-500/20 whitespace-nowrap flex items-center gap-1">
                         <VideoCameraIcon className="w-3 h-3" /> Video Analysis
@@ -1055,7 +1658,25 @@ const App: React.FC = () => {
                   </div>
                 </div>
 
-                <div className="absolute bottom-4 right-4 sm:bottom-6 sm:right-6">
+                <div className="absolute bottom-4 right-4 sm:bottom-6 sm:right-6 flex items-center gap-2">
+                  {state === InterviewState.PAUSED ? (
+                    <button
+                      onClick={handleResume}
+                      className="bg-green-600 hover:bg-green-500 text-white px-4 py-2 sm:px-5 sm:py-3 rounded-full font-bold shadow-lg shadow-green-500/30 flex items-center gap-2 transition-all transform hover:scale-105 text-sm sm:text-base"
+                    >
+                      <PlayIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+                      <span className="hidden xs:inline">Resume</span>
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handlePause}
+                      disabled={state !== InterviewState.ACTIVE}
+                      className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:hover:bg-slate-700 text-white px-4 py-2 sm:px-5 sm:py-3 rounded-full font-bold shadow-lg flex items-center gap-2 transition-all text-sm sm:text-base"
+                    >
+                      <PauseIcon className="w-4 h-4 sm:w-5 sm:h-5" />
+                      <span className="hidden xs:inline">Pause</span>
+                    </button>
+                  )}
                   <button
                     onClick={handleEndInterview}
                     className="bg-red-500 hover:bg-red-600 text-white px-4 py-2 sm:px-6 sm:py-3 rounded-full font-bold shadow-lg shadow-red-500/30 flex items-center gap-2 transition-all transform hover:scale-105 text-sm sm:text-base"
@@ -1067,22 +1688,85 @@ const App: React.FC = () => {
                 </div>
               </div>
 
-              {/* Live Transcript UI */}
-              <div className="w-full glass-panel bg-slate-900/80 rounded-2xl p-4 border-t border-slate-700/50 flex flex-col h-64">
-                <div className="flex items-center gap-2 mb-3 border-b border-slate-700/50 pb-2">
-                  <ChatBubbleLeftRightIcon className="w-4 h-4 text-blue-400" />
-                  <h3 className="text-sm font-semibold text-slate-300">Live Transcript</h3>
+              {agendaRef.current && (
+                <StageTracker
+                  stages={agendaRef.current.stages}
+                  currentIndex={agendaProgress.index}
+                  answers={agendaProgress.answers}
+                  onNext={handleNextStage}
+                  canAdvance={state === InterviewState.ACTIVE}
+                />
+              )}
+
+              <div className={codeLanguage ? "w-full grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6" : "w-full"}>
+                {/* Live Transcript UI */}
+                <div
+                  className={`w-full glass-panel bg-slate-900/80 rounded-2xl p-4 border-t border-slate-700/50 flex flex-col ${config?.mode === InterviewMode.TEXT ? "h-80" : "h-64"}`}
+                >
+                  <div className="flex items-center gap-2 mb-3 border-b border-slate-700/50 pb-2">
+                    <ChatBubbleLeftRightIcon className="w-4 h-4 text-blue-400" />
+                    <h3 className="text-sm font-semibold text-slate-300">Live Transcript</h3>
+                  </div>
+
+                  <VirtualizedTranscript
+                    messages={transcripts}
+                    currentInputTrans={currentInputTrans}
+                    currentOutputTrans={currentOutputTrans}
+                    containerHeight={256} // Corresponds to h-64 in Tailwind CSS
+                    messageHeight={80} // Estimate height of a message, adjust as needed
+                    endRef={transcriptEndRef}
+                  />
+
+                  {config?.mode === InterviewMode.TEXT && (
+                    <form onSubmit={handleSendAnswer} className="flex items-center gap-2 pt-3 mt-2 border-t border-slate-700/50">
+                      <input
+                        type="text"
+                        value={draftAnswer}
+                        onChange={(e) => setDraftAnswer(e.target.value)}
+                        disabled={state !== InterviewState.ACTIVE}
+                        placeholder={
+                          state === InterviewState.ACTIVE
+                            ? "Type your answer and press Enter..."
+                            : state === InterviewState.PAUSED
+                              ? "Interview paused"
+                              : "Reconnecting..."
+                        }
+                        className="flex-1 bg-slate-800/50 border border-slate-700 rounded-xl px-3 py-2 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                        autoFocus
+                      />
+                      <button
+                        type="submit"
+                        disabled={!draftAnswer.trim() || state !== InterviewState.ACTIVE}
+                        className="p-2 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white rounded-xl transition-colors"
+                        title="Send answer"
+                      >
+                        <PaperAirplaneIcon className="w-5 h-5" />
+                      </button>
+                    </form>
+                  )}
                 </div>
 
-                <VirtualizedTranscript
-                  messages={transcripts}
-                  currentInputTrans={currentInputTrans}
-                  currentOutputTrans={currentOutputTrans}
-                  containerHeight={256} // Corresponds to h-64 in Tailwind CSS
-                  messageHeight={80} // Estimate height of a message, adjust as needed
-                  endRef={transcriptEndRef}
-                />
+                {codeLanguage && (
+                  <CodeEditor
+                    code={code}
+                    language={codeLanguage}
+                    onChange={handleCodeChange}
+                    onLanguageChange={handleCodeLanguageChange}
+                    onSubmit={() => shareCode(true)}
+                    disabled={state !== InterviewState.ACTIVE}
+                    status={codeStatus}
+                  />
+                )}
               </div>
+
+              {whiteboardEnabled && (
+                <Whiteboard
+                  onChange={handleWhiteboardChange}
+                  onShare={() => shareWhiteboard(true)}
+                  disabled={state !== InterviewState.ACTIVE}
+                  status={whiteboardStatus}
+                />
+              )}
             </div>
           )}
 
@@ -1095,7 +1779,7 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-2xl font-bold text-white mb-2">Analysis in Progress</h2>
               <p className="text-slate-400 h-6 transition-all duration-500 ease-in-out text-sm md:text-base">
-                {LOADING_MESSAGES[loadingMsgIndex]}
+                {loadingMessages[loadingMsgIndex % loadingMessages.length]}
               </p>
 
               <div className="mt-8 p-4 bg-slate-800/50 rounded-lg border border-slate-700/50 text-sm text-slate-500">
@@ -1105,7 +1789,18 @@ const App: React.FC = () => {
           )}
 
           {state === InterviewState.FEEDBACK && feedback && (
-            <FeedbackReportComp data={feedback} onReset={() => setState(InterviewState.IDLE)} />
+            <FeedbackReportComp
+              data={feedback}
+              onReset={() => setState(InterviewState.IDLE)}
+              onDownloadRecording={recorderRef.current.hasAudio() ? handleDownloadRecording : undefined}
+              playback={
+                recordingPlayback
+                  ? { ...recordingPlayback, messages: transcripts }
+                  : transcripts.length
+                    ? { durationMs: 0, messages: transcripts }
+                    : undefined
+              }
+            />
           )}
 
           {state === InterviewState.ERROR && (
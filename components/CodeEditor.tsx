@@ -0,0 +1,104 @@
+import React, { useRef } from 'react';
+import { CODING_LANGUAGES } from '../constants';
+import { CodeBracketIcon, PaperAirplaneIcon, ChevronDownIcon } from '@heroicons/react/24/solid';
+
+interface CodeEditorProps {
+  code: string;
+  language: string;
+  onChange: (code: string) => void;
+  onLanguageChange: (language: string) => void;
+  onSubmit: () => void;
+  disabled: boolean;
+  status: string; // e.g. "Shared with interviewer" or "Unsaved changes"
+}
+
+const INDENT = '    ';
+
+// Plain textarea with a line-number gutter; Tab indents, Ctrl/Cmd+Enter submits
+const CodeEditor: React.FC<CodeEditorProps> = ({ code, language, onChange, onLanguageChange, onSubmit, disabled, status }) => {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = Math.max(1, code.split('\n').length);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      onSubmit();
+      return;
+    }
+    if (e.key !== 'Tab') return;
+
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const next = code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd);
+    onChange(next);
+    // Restore the caret after React re-renders the new value
+    requestAnimationFrame(() => {
+      textarea.selectionStart = textarea.selectionEnd = selectionStart + INDENT.length;
+    });
+  };
+
+  return (
+    <div className="w-full glass-panel bg-slate-900/80 rounded-2xl p-4 border-t border-slate-700/50 flex flex-col h-80 lg:h-full lg:min-h-[20rem]">
+      <div className="flex items-center justify-between gap-2 mb-3 border-b border-slate-700/50 pb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <CodeBracketIcon className="w-4 h-4 text-emerald-400 shrink-0" />
+          <h3 className="text-sm font-semibold text-slate-300">Code Editor</h3>
+          <span className="text-[11px] text-slate-500 truncate">{status}</span>
+        </div>
+        <div className="relative shrink-0">
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange(e.target.value)}
+            aria-label="Coding language"
+            className="appearance-none bg-slate-800 border border-slate-700 rounded-lg pl-2 pr-7 py-1 text-xs text-white focus:outline-none focus:ring-2 focus:ring-emerald-500 cursor-pointer"
+          >
+            {CODING_LANGUAGES.map((l) => (
+              <option key={l.id} value={l.id} className="bg-slate-800 text-white">
+                {l.label}
+              </option>
+            ))}
+          </select>
+          <div className="absolute inset-y-0 right-0 flex items-center px-1.5 pointer-events-none text-slate-400">
+            <ChevronDownIcon className="w-3 h-3" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0 rounded-xl border border-slate-700 bg-slate-950/60 overflow-hidden font-mono text-xs leading-5">
+        <div ref={gutterRef} className="select-none text-right text-slate-600 py-2 px-2 overflow-hidden bg-slate-900/60" aria-hidden>
+          {Array.from({ length: lineCount }, (_, i) => (
+            <div key={i}>{i + 1}</div>
+          ))}
+        </div>
+        <textarea
+          value={code}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onScroll={(e) => {
+            if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+          }}
+          spellCheck={false}
+          autoCapitalize="off"
+          autoCorrect="off"
+          placeholder="Write your solution here..."
+          className="flex-1 resize-none bg-transparent text-slate-100 placeholder-slate-600 py-2 px-3 focus:outline-none whitespace-pre overflow-auto"
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 pt-3">
+        <p className="text-[11px] text-slate-500">Ctrl/⌘ + Enter to submit</p>
+        <button
+          type="button"
+          onClick={onSubmit}
+          disabled={disabled || !code.trim()}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white transition-colors"
+        >
+          <PaperAirplaneIcon className="w-3.5 h-3.5" /> Submit for review
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CodeEditor;
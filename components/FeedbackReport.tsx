@@ -1,5 +1,5 @@
-import React from 'react';
-import { FeedbackData } from '../types';
+import React, { useState } from 'react';
+import { ChatMessage, FeedbackData, GestureEvent, JobFitStatus } from '../types';
 import {
   Radar,
   RadarChart,
@@ -7,33 +7,86 @@ import {
   PolarAngleAxis,
   PolarRadiusAxis,
   ResponsiveContainer,
+  ComposedChart,
+  BarChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
 } from 'recharts';
-import { CheckCircleIcon, ExclamationTriangleIcon, ArrowPathIcon, VideoCameraIcon, HandRaisedIcon, FaceSmileIcon, EyeIcon } from '@heroicons/react/24/solid';
+import { CheckCircleIcon, ExclamationTriangleIcon, ArrowPathIcon, VideoCameraIcon, HandRaisedIcon, FaceSmileIcon, EyeIcon, ClockIcon, ArrowDownTrayIcon, ListBulletIcon, QueueListIcon, ClipboardDocumentListIcon, LanguageIcon, CodeBracketIcon, PresentationChartLineIcon, ChatBubbleLeftRightIcon, ChevronDownIcon, MicrophoneIcon, SpeakerWaveIcon } from '@heroicons/react/24/solid';
+import SessionPlayback from './SessionPlayback';
+import { LONG_SILENCE_MS } from '../constants';
+
+export interface PlaybackData {
+  audioUrl?: string; // Absent when nothing was recorded; the transcript is still shown
+  durationMs: number;
+  messages: ChatMessage[];
+  gestureEvents?: GestureEvent[];
+}
+
+const FIT_STYLES: Record<JobFitStatus, { label: string; className: string }> = {
+  strong: { label: 'Strong evidence', className: 'text-green-400 bg-green-500/10 border-green-500/30' },
+  partial: { label: 'Partial', className: 'text-yellow-400 bg-yellow-500/10 border-yellow-500/30' },
+  gap: { label: 'Gap', className: 'text-red-400 bg-red-500/10 border-red-500/30' },
+  untested: { label: 'Not covered', className: 'text-slate-400 bg-slate-500/10 border-slate-600' },
+};
+
+const FIT_ORDER: JobFitStatus[] = ['strong', 'partial', 'gap', 'untested'];
+
+// Comfortable conversational pace, in words per minute
+const PACE_RANGE = { min: 120, max: 160 };
+
+const CHART_TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: 8, fontSize: 12 };
+
+// Readable names for the response fields listed in missingSections
+const SECTION_LABELS: Record<string, string> = {
+  score: 'Overall score',
+  summary: 'Summary',
+  strengths: 'Strengths',
+  improvements: 'Areas for growth',
+  competencies: 'Skill breakdown',
+  stages: 'Performance by stage',
+  bankQuestions: 'Question bank coverage',
+  jobFit: 'Job fit',
+  languageFeedback: 'Language coaching',
+  codeQuality: 'Code quality',
+  whiteboard: 'Whiteboard review',
+  vocalConfidence: 'Confidence score',
+  answers: 'Answer-by-answer scores',
+};
 
 interface FeedbackReportProps {
   data: FeedbackData;
   onReset: () => void;
+  onDownloadRecording?: () => void; // Only provided when the session was recorded
+  playback?: PlaybackData;
 }
 
-const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
-  // Defensive coding: Ensure metrics exists, default to 0 if missing
-  const metrics = data.metrics || {
-    technical: 0,
-    communication: 0,
-    confidence: 0,
-    clarity: 0,
-    problemSolving: 0
-  };
+const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset, onDownloadRecording, playback }) => {
+  const [expandedAnswers, setExpandedAnswers] = useState<number[]>([]);
+  const [transcriptFocus, setTranscriptFocus] = useState<{ messageIndex: number; key: number } | null>(null);
+  // Typed sessions and failed recordings have no audio, but quotes can still be found in the transcript
+  const hasTranscript = !!playback?.messages.some((m) => m.text.trim());
 
-  const chartData = [
-    { subject: 'Technical', A: metrics.technical, fullMark: 10 },
-    { subject: 'Communication', A: metrics.communication, fullMark: 10 },
-    { subject: 'Confidence', A: metrics.confidence, fullMark: 10 },
-    { subject: 'Clarity', A: metrics.clarity, fullMark: 10 },
-    { subject: 'Problem Solving', A: metrics.problemSolving, fullMark: 10 },
-  ];
+  const toggleAnswer = (id: number) =>
+    setExpandedAnswers((prev) => (prev.includes(id) ? prev.filter((a) => a !== id) : [...prev, id]));
+
+  // Defensive coding: older or malformed reports may lack competency scores
+  const chartData = (data.competencies || []).map((c) => ({ subject: c.name, A: c.score, fullMark: 10 }));
+  const deliveryMinutes = data.delivery?.minutes.map((m) => ({ ...m, label: m.minute + 1 })) ?? [];
+
+  const formatDuration = (totalSeconds: number) => {
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+  };
 
-  const getScoreColor = (score: number) => {
+  const getScoreColor = (score: number | null) => {
+    if (score === null) return 'text-slate-500';
     if (score >= 80) return 'text-green-400';
     if (score >= 60) return 'text-yellow-400';
     return 'text-red-400';
@@ -46,14 +99,38 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
           <h2 className="text-2xl md:text-3xl font-bold text-white">Interview Analysis</h2>
           <p className="text-slate-400 text-sm mt-1">Detailed breakdown of your performance</p>
         </div>
-        <button
-          onClick={onReset}
-          className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 rounded-full text-white font-bold shadow-lg shadow-blue-500/20 transition-all transform hover:scale-105 text-sm md:text-base"
-        >
-          <ArrowPathIcon className="w-4 h-4" /> New Session
-        </button>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          {onDownloadRecording && (
+            <button
+              onClick={onDownloadRecording}
+              title="Audio (mixed + stems) with WebVTT/SRT transcript"
+              className="flex items-center gap-2 px-5 py-2 bg-slate-700 hover:bg-slate-600 rounded-full text-white font-bold transition-all text-sm md:text-base"
+            >
+              <ArrowDownTrayIcon className="w-4 h-4" /> Download Recording
+            </button>
+          )}
+          <button
+            onClick={onReset}
+            className="flex items-center gap-2 px-6 py-2 bg-blue-600 hover:bg-blue-500 rounded-full text-white font-bold shadow-lg shadow-blue-500/20 transition-all transform hover:scale-105 text-sm md:text-base"
+          >
+            <ArrowPathIcon className="w-4 h-4" /> New Session
+          </button>
+        </div>
       </div>
 
+      {/* Sections the analysis could not produce are listed rather than shown as zeros */}
+      {data.missingSections && data.missingSections.length > 0 && (
+        <div className="mb-4 md:mb-6 flex gap-3 p-4 rounded-xl border border-orange-500/40 bg-orange-500/10 text-sm text-orange-200">
+          <ExclamationTriangleIcon className="w-5 h-5 text-orange-400 shrink-0 mt-0.5" />
+          <p>
+            This report is incomplete. The analysis did not return a valid{' '}
+            {data.missingSections.map((field) => SECTION_LABELS[field] ?? field).join(', ')} section
+            {data.missingSections.length === 1 ? '' : 's'}, even after retrying, so{' '}
+            {data.missingSections.length === 1 ? 'it is' : 'they are'} left out instead of being scored.
+          </p>
+        </div>
+      )}
+
       {/* CHANGED: lg:grid-cols-3 -> lg:grid-cols-2 for better balance */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 md:gap-6">
         
@@ -81,42 +158,55 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
                 strokeWidth="12"
                 fill="transparent"
                 strokeDasharray={440}
-                strokeDashoffset={440 - (440 * data.score) / 100}
+                strokeDashoffset={440 - (440 * (data.score ?? 0)) / 100}
                 className={`${getScoreColor(data.score)} transition-all duration-1000 ease-out`}
                 strokeLinecap="round"
               />
             </svg>
             <div className="absolute flex flex-col items-center animate-fade-in-up">
-              <span className={`text-4xl md:text-5xl font-bold ${getScoreColor(data.score)}`}>{data.score}</span>
-              <span className="text-xs text-slate-400 uppercase tracking-wider mt-1">/ 100</span>
+              <span className={`text-4xl md:text-5xl font-bold ${getScoreColor(data.score)}`}>{data.score ?? '—'}</span>
+              <span className="text-xs text-slate-400 uppercase tracking-wider mt-1">{data.score === null ? 'Not scored' : '/ 100'}</span>
             </div>
           </div>
           
           <div className="text-center bg-slate-800/50 p-4 rounded-xl border border-slate-700/50 w-full">
             <p className="text-slate-300 text-sm leading-relaxed italic">"{data.summary}"</p>
           </div>
+
+          {data.durationSeconds !== undefined && data.durationSeconds > 0 && (
+            <p className="mt-3 text-xs text-slate-400 flex items-center gap-1.5">
+              <ClockIcon className="w-4 h-4" />
+              Interview length: {formatDuration(data.durationSeconds)} (pauses excluded)
+            </p>
+          )}
         </div>
 
         {/* Radar Chart - Now spans 50% (lg:col-span-1 in 2-col grid) */}
         <div className="glass-panel p-4 md:p-6 rounded-2xl min-h-[300px] md:min-h-[400px] flex flex-col order-2">
           <h3 className="text-lg font-semibold text-white mb-6 border-b border-slate-700/50 pb-2">Skill Breakdown</h3>
-          <div className="flex-1 w-full h-full min-h-[250px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <RadarChart cx="50%" cy="50%" outerRadius="70%" data={chartData}>
-                <PolarGrid stroke="#334155" />
-                <PolarAngleAxis dataKey="subject" tick={{ fill: '#94a3b8', fontSize: 10 }} />
-                <PolarRadiusAxis angle={30} domain={[0, 10]} tick={false} axisLine={false} />
-                <Radar
-                  name="Performance"
-                  dataKey="A"
-                  stroke="#818cf8"
-                  strokeWidth={3}
-                  fill="#818cf8"
-                  fillOpacity={0.4}
-                />
-              </RadarChart>
-            </ResponsiveContainer>
-          </div>
+          {chartData.length === 0 ? (
+            <p className="flex-1 flex items-center justify-center text-sm text-slate-400 text-center">
+              No skill scores are available for this session.
+            </p>
+          ) : (
+            <div className="flex-1 w-full h-full min-h-[250px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <RadarChart cx="50%" cy="50%" outerRadius="70%" data={chartData}>
+                  <PolarGrid stroke="#334155" />
+                  <PolarAngleAxis dataKey="subject" tick={{ fill: '#94a3b8', fontSize: 10 }} />
+                  <PolarRadiusAxis angle={30} domain={[0, 10]} tick={false} axisLine={false} />
+                  <Radar
+                    name="Performance"
+                    dataKey="A"
+                    stroke="#818cf8"
+                    strokeWidth={3}
+                    fill="#818cf8"
+                    fillOpacity={0.4}
+                  />
+                </RadarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
         </div>
 
         {/* Strengths - Spans 50% */}
@@ -125,6 +215,7 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
             <CheckCircleIcon className="w-6 h-6 text-green-500" /> 
             Top Strengths
           </h3>
+          {data.strengths.length === 0 && <p className="text-sm text-slate-400">No strengths were reported.</p>}
           <ul className="space-y-3">
             {data.strengths.map((s, i) => (
               <li key={i} className="flex gap-3 text-slate-300 text-sm bg-slate-800/30 p-3 rounded-lg">
@@ -142,6 +233,7 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
             Areas for Growth
           </h3>
           {/* Changed from grid to vertical stack for better readability in 50% width */}
+          {data.improvements.length === 0 && <p className="text-sm text-slate-400">No areas for growth were reported.</p>}
           <div className="flex flex-col gap-3">
              {data.improvements.map((s, i) => (
               <div key={i} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700/50 hover:border-yellow-500/30 transition-colors">
@@ -154,6 +246,518 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
           </div>
         </div>
 
+        {/* Stage Breakdown - Spans Full Width (lg:col-span-2) */}
+        {data.stages && data.stages.length > 0 && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-blue-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+              <ListBulletIcon className="w-6 h-6 text-blue-500" />
+              Performance by Stage
+            </h3>
+            <div className="flex flex-col gap-3">
+              {data.stages.map((stage) => (
+                <div key={stage.id} className="bg-slate-800/50 p-4 rounded-xl border border-slate-700/50">
+                  <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                    <p className="text-sm font-semibold text-white">{stage.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {formatDuration(stage.actualSeconds)} of ~{stage.targetMinutes}m · {stage.answers}/{stage.questionCount} answers
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 h-2 rounded-full bg-slate-700 overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${stage.score >= 8 ? 'bg-green-500' : stage.score >= 6 ? 'bg-yellow-500' : 'bg-red-500'}`}
+                        style={{ width: `${stage.score * 10}%` }}
+                      />
+                    </div>
+                    <span className={`text-sm font-bold w-10 text-right ${getScoreColor(stage.score * 10)}`}>{stage.score}/10</span>
+                  </div>
+                  {stage.comment && <p className="mt-2 text-sm text-slate-300">{stage.comment}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Answer Breakdown - Spans Full Width (lg:col-span-2) */}
+        {data.answers && data.answers.length > 0 && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-sky-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <ChatBubbleLeftRightIcon className="w-6 h-6 text-sky-500" />
+              Answer by Answer
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">
+              Expand a question for its critique and evidence{hasTranscript ? '; click a quote to find it in the transcript' : ''}.
+            </p>
+            <div className="flex flex-col gap-2">
+              {data.answers.map((answer) => {
+                const expanded = expandedAnswers.includes(answer.id);
+                return (
+                  <div key={answer.id} className="bg-slate-800/50 rounded-xl border border-slate-700/50">
+                    <button
+                      type="button"
+                      onClick={() => toggleAnswer(answer.id)}
+                      aria-expanded={expanded}
+                      className="w-full flex items-center gap-3 p-4 text-left"
+                    >
+                      <span className="text-xs font-mono text-slate-500 shrink-0">Q{answer.id}</span>
+                      <span className={`flex-1 text-sm text-white ${expanded ? '' : 'truncate'}`}>{answer.question}</span>
+                      <span className={`text-sm font-bold shrink-0 ${getScoreColor(answer.score * 10)}`}>{answer.score}/10</span>
+                      <ChevronDownIcon className={`w-4 h-4 text-slate-400 shrink-0 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                    </button>
+                    {expanded && (
+                      <div className="px-4 pb-4 border-t border-slate-700/50 pt-3">
+                        <div className="flex flex-wrap gap-4 mb-2 text-xs text-slate-400">
+                          {[
+                            { label: 'Relevance', score: answer.relevance },
+                            { label: 'Depth', score: answer.depth },
+                            { label: 'Clarity', score: answer.clarity },
+                          ].map(({ label, score }) => (
+                            <span key={label}>
+                              {label} <span className={`font-bold ${getScoreColor(score * 10)}`}>{score}/10</span>
+                            </span>
+                          ))}
+                        </div>
+                        {answer.critique && <p className="text-sm text-slate-300 mb-3">{answer.critique}</p>}
+                        {answer.evidence.length > 0 ? (
+                          <div className="flex flex-col gap-2">
+                            {answer.evidence.map((item, i) => (
+                              <button
+                                key={i}
+                                type="button"
+                                onClick={() => setTranscriptFocus({ messageIndex: item.messageIndex, key: Date.now() })}
+                                disabled={!hasTranscript}
+                                className={`text-left text-sm italic pl-3 border-l-2 transition-colors disabled:cursor-default ${
+                                  item.kind === 'strength'
+                                    ? 'border-green-500 text-green-200 enabled:hover:text-green-100'
+                                    : 'border-yellow-500 text-yellow-200 enabled:hover:text-yellow-100'
+                                }`}
+                              >
+                                "{item.quote}"
+                              </button>
+                            ))}
+                          </div>
+                        ) : (
+                          <p className="text-xs text-slate-500 italic">No quoted evidence for this answer.</p>
+                        )}
+                        {hasTranscript && (
+                          <button
+                            type="button"
+                            onClick={() => setTranscriptFocus({ messageIndex: answer.questionIndex, key: Date.now() })}
+                            className="mt-3 text-xs text-sky-400 hover:text-sky-300"
+                          >
+                            Show question in transcript
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Question Bank Coverage - Spans Full Width (lg:col-span-2) */}
+        {data.bankQuestions && data.bankQuestions.length > 0 && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-teal-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <QueueListIcon className="w-6 h-6 text-teal-500" />
+              Question Bank Coverage
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">
+              {data.bankQuestions.filter((q) => q.asked).length} of {data.bankQuestions.length} bank questions asked
+            </p>
+            <div className="flex flex-col gap-3">
+              {[...data.bankQuestions]
+                .sort((a, b) => Number(b.asked) - Number(a.asked))
+                .map((q) => (
+                  <div
+                    key={q.id}
+                    className={`p-4 rounded-xl border ${q.asked ? 'bg-slate-800/50 border-slate-700/50' : 'bg-slate-800/20 border-slate-800 opacity-70'}`}
+                  >
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm text-white">
+                        {q.question}
+                        {q.topic && <span className="ml-2 text-[10px] text-teal-400 px-1.5 py-0.5 bg-teal-500/10 rounded border border-teal-500/20">{q.topic}</span>}
+                      </p>
+                      {q.asked && q.score !== undefined ? (
+                        <span className={`text-sm font-bold shrink-0 ${getScoreColor(q.score * 10)}`}>{q.score}/10</span>
+                      ) : (
+                        <span className="text-xs text-slate-500 shrink-0">{q.asked ? 'Asked' : 'Not asked'}</span>
+                      )}
+                    </div>
+                    {q.answerSummary && <p className="mt-2 text-sm text-slate-400">{q.answerSummary}</p>}
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {/* Code Quality - Spans Full Width (lg:col-span-2) */}
+        {data.coding && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-emerald-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <CodeBracketIcon className="w-6 h-6 text-emerald-500" />
+              Code Quality
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">
+              {data.coding.revisions} revision{data.coding.revisions === 1 ? '' : 's'}, {data.coding.submissions} submitted for review
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              {[
+                { label: 'Overall', score: data.coding.score },
+                { label: 'Correctness', score: data.coding.correctness },
+                { label: 'Readability', score: data.coding.readability },
+                { label: 'Efficiency', score: data.coding.efficiency },
+              ].map(({ label, score }) => (
+                <div key={label} className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 text-center">
+                  <p className={`text-2xl font-bold ${getScoreColor(score * 10)}`}>{score}/10</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wide">{label}</p>
+                </div>
+              ))}
+            </div>
+            {data.coding.comment && <p className="text-sm text-slate-300 mb-4">{data.coding.comment}</p>}
+            <details className="group">
+              <summary className="text-xs text-slate-400 cursor-pointer hover:text-white">Final code ({data.coding.language})</summary>
+              <pre className="mt-2 p-4 rounded-xl bg-slate-950/60 border border-slate-700 text-xs text-slate-200 font-mono overflow-auto max-h-96">
+                {data.coding.finalCode}
+              </pre>
+            </details>
+          </div>
+        )}
+
+        {/* Whiteboard - Spans Full Width (lg:col-span-2) */}
+        {data.whiteboard && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-amber-500 order-5 animate-fade-in-up">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+                  <PresentationChartLineIcon className="w-6 h-6 text-amber-500" />
+                  Whiteboard
+                </h3>
+                <p className="text-xs text-slate-400">
+                  {data.whiteboard.snapshots} version{data.whiteboard.snapshots === 1 ? '' : 's'}, {data.whiteboard.shares} shared for discussion
+                </p>
+              </div>
+              <p className={`text-2xl font-bold ${getScoreColor(data.whiteboard.score * 10)}`}>{data.whiteboard.score}/10</p>
+            </div>
+            {data.whiteboard.comment && <p className="text-sm text-slate-300 mb-4">{data.whiteboard.comment}</p>}
+            <img
+              src={data.whiteboard.finalImage}
+              alt="Final whiteboard diagram"
+              className="w-full rounded-xl border border-slate-700"
+            />
+          </div>
+        )}
+
+        {/* Language Coaching - Spans Full Width (lg:col-span-2) */}
+        {data.languageFeedback && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-violet-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+              <LanguageIcon className="w-6 h-6 text-violet-500" />
+              Language Coaching
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+              {[
+                { label: 'Fluency', value: `${data.languageFeedback.fluency}/10`, score: data.languageFeedback.fluency },
+                { label: 'Grammar', value: `${data.languageFeedback.grammar}/10`, score: data.languageFeedback.grammar },
+                { label: 'Vocabulary', value: `${data.languageFeedback.vocabulary}/10`, score: data.languageFeedback.vocabulary },
+                { label: 'Language Switches', value: String(data.languageFeedback.nativeLanguageSwitches) },
+              ].map(({ label, value, score }) => (
+                <div key={label} className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 text-center">
+                  <p className={`text-2xl font-bold ${score === undefined ? 'text-white' : getScoreColor(score * 10)}`}>{value}</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wide">{label}</p>
+                </div>
+              ))}
+            </div>
+
+            {data.languageFeedback.corrections.length > 0 && (
+              <div className="flex flex-col gap-3 mb-4">
+                {data.languageFeedback.corrections.map((c, i) => (
+                  <div key={i} className="p-4 rounded-xl border bg-slate-800/50 border-slate-700/50">
+                    <p className="text-sm text-red-300 line-through decoration-red-400/50">{c.original}</p>
+                    <p className="text-sm text-green-300 mt-1">{c.improved}</p>
+                    {c.note && <p className="text-xs text-slate-400 mt-2">{c.note}</p>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {data.languageFeedback.tips.length > 0 && (
+              <ul className="space-y-2">
+                {data.languageFeedback.tips.map((tip, i) => (
+                  <li key={i} className="flex gap-3 text-sm text-slate-300">
+                    <span className="text-violet-400 shrink-0">•</span>
+                    {tip}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Job Fit - Spans Full Width (lg:col-span-2) */}
+        {data.jobFit && data.jobFit.length > 0 && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-cyan-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <ClipboardDocumentListIcon className="w-6 h-6 text-cyan-500" />
+              Job Fit
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">
+              {FIT_ORDER.map((status) => `${data.jobFit!.filter((r) => r.status === status).length} ${FIT_STYLES[status].label.toLowerCase()}`).join(' · ')}
+            </p>
+            <div className="flex flex-col gap-3">
+              {[...data.jobFit]
+                .sort((a, b) => FIT_ORDER.indexOf(a.status) - FIT_ORDER.indexOf(b.status))
+                .map((item) => (
+                  <div key={item.id} className="p-4 rounded-xl border bg-slate-800/50 border-slate-700/50">
+                    <div className="flex items-start justify-between gap-3">
+                      <p className="text-sm text-white">
+                        {item.requirement}
+                        <span className="ml-2 text-[10px] text-cyan-400 px-1.5 py-0.5 bg-cyan-500/10 rounded border border-cyan-500/20 capitalize">{item.kind}</span>
+                      </p>
+                      <span className={`text-xs font-semibold px-2 py-0.5 rounded border shrink-0 ${FIT_STYLES[item.status].className}`}>
+                        {FIT_STYLES[item.status].label}
+                      </span>
+                    </div>
+                    {item.evidence && <p className="mt-2 text-sm text-slate-400 italic">{item.evidence}</p>}
+                  </div>
+                ))}
+            </div>
+          </div>
+        )}
+
+        {/* Speech Delivery - Spans Full Width (lg:col-span-2) */}
+        {data.delivery && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-teal-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <MicrophoneIcon className="w-6 h-6 text-teal-500" />
+              Speech Delivery
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">Measured from the timing of your speech, not judged by the AI.</p>
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+              {[
+                {
+                  label: 'Pace',
+                  value: data.delivery.wordsPerMinute === null ? '—' : `${data.delivery.wordsPerMinute} wpm`,
+                  hint: `${PACE_RANGE.min}-${PACE_RANGE.max} is comfortable`,
+                  warn:
+                    data.delivery.wordsPerMinute !== null &&
+                    (data.delivery.wordsPerMinute < PACE_RANGE.min || data.delivery.wordsPerMinute > PACE_RANGE.max),
+                },
+                {
+                  label: 'Filler Words',
+                  value: data.delivery.fillerCount === null ? '—' : String(data.delivery.fillerCount),
+                  hint:
+                    data.delivery.fillerCount === null
+                      ? 'Counted in English only'
+                      : `${((data.delivery.fillerCount / Math.max(1, data.delivery.candidateWords)) * 100).toFixed(1)}% of ${data.delivery.candidateWords} words`,
+                },
+                {
+                  label: 'Your Talk Time',
+                  value: data.delivery.talkRatio === null ? '—' : `${Math.round(data.delivery.talkRatio * 100)}%`,
+                  hint: `${formatDuration(Math.round(data.delivery.candidateTalkSeconds))} vs ${formatDuration(Math.round(data.delivery.interviewerTalkSeconds))}`,
+                },
+                {
+                  label: 'Longest Answer',
+                  value: data.delivery.longestMonologue ? formatDuration(Math.round(data.delivery.longestMonologue.seconds)) : '—',
+                  hint: 'Without interruption',
+                  messageIndex: data.delivery.longestMonologue?.messageIndex,
+                },
+                {
+                  label: 'Response Time',
+                  value: data.delivery.averageLatencySeconds === null ? '—' : `${data.delivery.averageLatencySeconds}s`,
+                  hint: 'Average before answering',
+                },
+                {
+                  label: 'Long Silences',
+                  value: String(data.delivery.silences.length),
+                  hint: `Gaps of ${LONG_SILENCE_MS / 1000}s or more`,
+                },
+              ].map(({ label, value, hint, warn, messageIndex }) => (
+                <div key={label} className="bg-slate-800/50 p-3 rounded-xl border border-slate-700 text-center">
+                  <p className={`text-xl font-bold ${warn ? 'text-yellow-400' : 'text-white'}`}>{value}</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wide">{label}</p>
+                  {hasTranscript && messageIndex !== undefined ? (
+                    <button
+                      type="button"
+                      onClick={() => setTranscriptFocus({ messageIndex, key: Date.now() })}
+                      className="mt-1 text-[11px] text-teal-400 hover:text-teal-300"
+                    >
+                      Show in transcript
+                    </button>
+                  ) : (
+                    <p className="mt-1 text-[11px] text-slate-500">{hint}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {data.delivery.fillers.length > 0 && (
+              <div className="mt-4 flex flex-wrap gap-2">
+                {data.delivery.fillers.map((filler) => (
+                  <span key={filler.phrase} className="text-xs px-2 py-1 rounded-full border border-slate-600 text-slate-300">
+                    "{filler.phrase}" × {filler.count}
+                  </span>
+                ))}
+              </div>
+            )}
+
+            <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm font-semibold text-slate-300 mb-2">Pace and Fillers per Minute</p>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={deliveryMinutes}>
+                      <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fill: '#94a3b8', fontSize: 10 }} />
+                      <YAxis yAxisId="pace" tick={{ fill: '#94a3b8', fontSize: 10 }} width={32} />
+                      <YAxis yAxisId="fillers" orientation="right" allowDecimals={false} tick={{ fill: '#94a3b8', fontSize: 10 }} width={24} />
+                      <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelFormatter={(label) => `Minute ${label}`} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <Bar yAxisId="fillers" dataKey="fillers" name="Fillers" fill="#f59e0b" fillOpacity={0.6} />
+                      <Line yAxisId="pace" dataKey="wordsPerMinute" name="Words / min" stroke="#2dd4bf" strokeWidth={2} connectNulls />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-semibold text-slate-300 mb-2">Talk Time per Minute (seconds)</p>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={deliveryMinutes}>
+                      <CartesianGrid stroke="#334155" strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fill: '#94a3b8', fontSize: 10 }} />
+                      <YAxis domain={[0, 60]} tick={{ fill: '#94a3b8', fontSize: 10 }} width={32} />
+                      <Tooltip contentStyle={CHART_TOOLTIP_STYLE} labelFormatter={(label) => `Minute ${label}`} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <Bar dataKey="candidateSeconds" name="You" stackId="talk" fill="#2dd4bf" />
+                      <Bar dataKey="interviewerSeconds" name="Interviewer" stackId="talk" fill="#64748b" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            </div>
+
+            {data.delivery.silences.length > 0 && (
+              <p className="mt-4 text-sm text-slate-400">
+                Long silences at{' '}
+                {data.delivery.silences
+                  .map((s) => `${formatDuration(Math.round(s.startMs / 1000))} (${Math.round((s.endMs - s.startMs) / 1000)}s)`)
+                  .join(', ')}
+                .
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Vocal Delivery - Spans Full Width (lg:col-span-2) */}
+        {data.prosody && (
+          <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-violet-500 order-5 animate-fade-in-up">
+            <h3 className="text-lg font-bold text-white mb-1 flex items-center gap-2">
+              <SpeakerWaveIcon className="w-6 h-6 text-violet-500" />
+              Vocal Delivery
+            </h3>
+            <p className="text-xs text-slate-400 mb-4">Loudness and pitch measured from your microphone, as evidence behind the confidence score.</p>
+            {data.confidence?.comment && <p className="text-sm text-slate-300 mb-4">{data.confidence.comment}</p>}
+
+            {(data.prosody.clipping || data.prosody.tooQuiet) && (
+              <div className="mb-4 flex gap-3 p-3 rounded-xl border border-orange-500/40 bg-orange-500/10 text-sm text-orange-200">
+                <ExclamationTriangleIcon className="w-5 h-5 text-orange-400 shrink-0 mt-0.5" />
+                <p>
+                  {data.prosody.clipping &&
+                    `Your microphone clipped in ${data.prosody.clippingPercent}% of your speech; move back or lower the input gain. `}
+                  {data.prosody.tooQuiet && 'Your microphone input was very quiet; move closer or raise the input gain. '}
+                  Vocal measurements may be less reliable.
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-3">
+              {data.confidence && (
+                <div className="bg-violet-500/10 p-3 rounded-xl border border-violet-500/30 text-center">
+                  <p className={`text-xl font-bold ${getScoreColor(data.confidence.score * 10)}`}>{data.confidence.score}/10</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wide">Confidence</p>
+                  <p className="mt-1 text-[11px] text-slate-500">AI assessment</p>
+                </div>
+              )}
+              {[
+                {
+                  label: 'Pitch Variation',
+                  value: data.prosody.pitchVariationSemitones === null ? '—' : `${data.prosody.pitchVariationSemitones} st`,
+                  hint: `${data.prosody.monotoneAnswers} monotone answer${data.prosody.monotoneAnswers === 1 ? '' : 's'}`,
+                  warn: data.prosody.monotoneAnswers > 0,
+                },
+                {
+                  label: 'Loudness',
+                  value: data.prosody.loudnessDb === null ? '—' : `${data.prosody.loudnessDb} dB`,
+                  hint: data.prosody.loudnessVariationDb === null ? 'Not enough speech' : `±${data.prosody.loudnessVariationDb} dB variation`,
+                },
+                {
+                  label: 'Trailing Off',
+                  value: `${data.prosody.trailingOffAnswers}/${data.prosody.answers.length}`,
+                  hint: 'Answers fading at the end',
+                  warn: data.prosody.trailingOffAnswers > 0,
+                },
+                {
+                  label: 'Uptalk',
+                  value: `${data.prosody.uptalkAnswers}/${data.prosody.answers.length}`,
+                  hint: 'Answers ending phrases on a rise',
+                  warn: data.prosody.uptalkAnswers > 0,
+                },
+              ].map(({ label, value, hint, warn }) => (
+                <div key={label} className="bg-slate-800/50 p-3 rounded-xl border border-slate-700 text-center">
+                  <p className={`text-xl font-bold ${warn ? 'text-yellow-400' : 'text-white'}`}>{value}</p>
+                  <p className="text-xs text-slate-400 uppercase tracking-wide">{label}</p>
+                  <p className="mt-1 text-[11px] text-slate-500">{hint}</p>
+                </div>
+              ))}
+            </div>
+
+            {data.prosody.answers.length > 0 && (
+              <div className="mt-4 overflow-x-auto">
+                <table className="w-full text-sm text-left">
+                  <thead className="text-xs text-slate-400 uppercase">
+                    <tr>
+                      <th className="py-2 pr-3 font-medium">Answer</th>
+                      <th className="py-2 pr-3 font-medium">Pitch</th>
+                      <th className="py-2 pr-3 font-medium">Variation</th>
+                      <th className="py-2 pr-3 font-medium">Loudness</th>
+                      <th className="py-2 font-medium">Flags</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-slate-300">
+                    {data.prosody.answers.map((answer, i) => {
+                      const flags = [answer.monotone && 'Monotone', answer.trailingOff && 'Trailing off', answer.uptalk && 'Uptalk'].filter(Boolean);
+                      return (
+                        <tr key={answer.messageIndex} className="border-t border-slate-700/50">
+                          <td className="py-2 pr-3">
+                            {hasTranscript ? (
+                              <button
+                                type="button"
+                                onClick={() => setTranscriptFocus({ messageIndex: answer.messageIndex, key: Date.now() })}
+                                className="text-violet-400 hover:text-violet-300"
+                              >
+                                #{i + 1}
+                              </button>
+                            ) : (
+                              `#${i + 1}`
+                            )}
+                          </td>
+                          <td className="py-2 pr-3">{answer.pitchHz === null ? '—' : `${answer.pitchHz} Hz`}</td>
+                          <td className="py-2 pr-3">{answer.pitchVariationSemitones === null ? '—' : `${answer.pitchVariationSemitones} st`}</td>
+                          <td className="py-2 pr-3">{answer.loudnessDb} dB</td>
+                          <td className="py-2 text-yellow-400">{flags.length ? flags.join(', ') : <span className="text-slate-500">—</span>}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Body Language Analysis - Spans Full Width (lg:col-span-2) */}
         {data.gestureMetrics && (
           <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-indigo-500 order-5 animate-fade-in-up">
@@ -183,12 +787,58 @@ const FeedbackReport: React.FC<FeedbackReportProps> = ({ data, onReset }) => {
                     <p className="text-xs text-slate-400 uppercase tracking-wide">Face Touches</p>
                 </div>
             </div>
+
+            {/* Gaze, only once a face was seen */}
+            {data.gestureMetrics.eyeContactPercent !== null && (
+              <div className="mt-4 grid grid-cols-2 md:grid-cols-4 gap-4">
+                {[
+                  {
+                    label: 'Eye Contact',
+                    value: `${data.gestureMetrics.eyeContactPercent}%`,
+                    hint: 'Of the time you were on camera',
+                    warn: data.gestureMetrics.eyeContactPercent < 50,
+                  },
+                  {
+                    label: 'Look-Aways',
+                    value: String(data.gestureMetrics.lookAwayCount),
+                    hint: data.gestureMetrics.lookAwayCount
+                      ? `Avg ${data.gestureMetrics.lookAwayAverageSeconds}s, longest ${data.gestureMetrics.lookAwayLongestSeconds}s`
+                      : 'None over a second',
+                  },
+                  {
+                    label: 'Looking Down',
+                    value: String(data.gestureMetrics.lookDownCount),
+                    hint: data.gestureMetrics.lookDownCount
+                      ? `${data.gestureMetrics.lookDownSeconds}s in total, possibly reading`
+                      : 'No sustained looks down',
+                    warn: data.gestureMetrics.lookDownCount > 0,
+                  },
+                  {
+                    label: 'Head Pose',
+                    value: data.gestureMetrics.averageHeadPose
+                      ? `${data.gestureMetrics.averageHeadPose.yaw}° / ${data.gestureMetrics.averageHeadPose.pitch}°`
+                      : '—',
+                    hint: data.gestureMetrics.averageHeadPose
+                      ? `Average turn / tilt, ${data.gestureMetrics.averageHeadPose.roll}° roll`
+                      : 'Face not detected',
+                  },
+                ].map(({ label, value, hint, warn }) => (
+                  <div key={label} className="bg-slate-800/50 p-4 rounded-xl border border-slate-700 text-center">
+                    <p className={`text-2xl font-bold ${warn ? 'text-yellow-400' : 'text-white'}`}>{value}</p>
+                    <p className="text-xs text-slate-400 uppercase tracking-wide">{label}</p>
+                    <p className="mt-1 text-[11px] text-slate-500">{hint}</p>
+                  </div>
+                ))}
+              </div>
+            )}
             <p className="mt-4 text-sm text-slate-400 text-center italic">
-                * Metrics detected via camera analysis. Frequent face touching may indicate nervousness. Regular smiling improves perceived confidence.
+                * Metrics detected via camera analysis. Frequent face touching may indicate nervousness. Regular smiling improves perceived confidence. Eye contact is estimated from head pose and iris position; look into the camera rather than at the screen.
             </p>
           </div>
         )}
 
+        {playback && hasTranscript && <SessionPlayback {...playback} focus={transcriptFocus} />}
+
       </div>
     </div>
   );
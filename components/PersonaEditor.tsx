@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { FollowUpLevel, InterruptionTolerance, PersonaProfile } from '../types';
+import { DEFAULT_AGENDA, INTERVIEWER_VOICES } from '../constants';
+import { ChevronDownIcon } from '@heroicons/react/24/solid';
+
+interface PersonaEditorProps {
+  persona: PersonaProfile;
+  onSave: (persona: PersonaProfile) => void;
+  onCancel: () => void;
+}
+
+const FOLLOW_UP_OPTIONS: { value: FollowUpLevel; label: string }[] = [
+  { value: 'light', label: 'Light' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'relentless', label: 'Relentless' },
+];
+
+const INTERRUPTION_OPTIONS: { value: InterruptionTolerance; label: string }[] = [
+  { value: 'patient', label: 'Patient' },
+  { value: 'balanced', label: 'Balanced' },
+  { value: 'brisk', label: 'Brisk' },
+];
+
+// Every interview opens with introductions and ends with the candidate's questions
+const OPTIONAL_STAGES = DEFAULT_AGENDA.slice(1, -1);
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<PersonaProfile>(persona);
+  const canSave = draft.name.trim().length > 0 && draft.instructions.trim().length > 0;
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 p-2 rounded-lg border text-xs transition-all ${
+      active
+        ? 'border-purple-500 bg-purple-500/20 text-white'
+        : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-500'
+    }`;
+
+  const toggleStage = (id: string) => {
+    const skipped = draft.skipStages ?? [];
+    setDraft({ ...draft, skipStages: skipped.includes(id) ? skipped.filter((s) => s !== id) : [...skipped, id] });
+  };
+
+  return (
+    <div className="mt-3 p-4 rounded-xl border border-purple-500/40 bg-slate-900/60 space-y-3">
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+        placeholder="Persona name, e.g. Skeptical Staff Engineer"
+        maxLength={60}
+        className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      <textarea
+        value={draft.instructions}
+        onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+        placeholder="How should this interviewer behave? E.g. Dry sense of humor, pushes hard on scalability, rarely gives hints."
+        rows={3}
+        maxLength={2000}
+        className="w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+
+      <div className="relative">
+        <select
+          value={draft.voiceName}
+          onChange={(e) => setDraft({ ...draft, voiceName: e.target.value })}
+          aria-label="Persona voice"
+          className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 pr-10 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500 cursor-pointer"
+        >
+          {INTERVIEWER_VOICES.map((voice) => (
+            <option key={voice.name} value={voice.name} className="bg-slate-800 text-white">
+              Voice: {voice.name} ({voice.description})
+            </option>
+          ))}
+        </select>
+        <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-slate-400">
+          <ChevronDownIcon className="w-4 h-4" />
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-400 mb-1.5">Follow-up questions</p>
+        <div className="flex gap-2">
+          {FOLLOW_UP_OPTIONS.map(({ value, label }) => (
+            <button key={value} type="button" onClick={() => setDraft({ ...draft, followUpLevel: value })} className={segmentClass(draft.followUpLevel === value)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-400 mb-1.5">Interruption tolerance</p>
+        <div className="flex gap-2">
+          {INTERRUPTION_OPTIONS.map(({ value, label }) => (
+            <button key={value} type="button" onClick={() => setDraft({ ...draft, interruptionTolerance: value })} className={segmentClass(draft.interruptionTolerance === value)}>
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs text-slate-400 mb-1.5">Agenda stages</p>
+        <div className="flex gap-2">
+          {OPTIONAL_STAGES.map(({ id, title }) => (
+            <button key={id} type="button" onClick={() => toggleStage(id)} aria-pressed={!draft.skipStages?.includes(id)} className={segmentClass(!draft.skipStages?.includes(id))}>
+              {title}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700 transition-colors">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave({ ...draft, name: draft.name.trim(), instructions: draft.instructions.trim() })}
+          disabled={!canSave}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Persona
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Competency, RoleDefinition } from '../types';
+import { MAX_COMPETENCIES, MIN_COMPETENCIES, toCompetencyId } from '../services/roleStore';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/solid';
+
+interface RoleEditorProps {
+  role: RoleDefinition;
+  onSave: (role: RoleDefinition) => void;
+  onCancel: () => void;
+}
+
+const inputClass =
+  'w-full bg-slate-800/50 border border-slate-700 rounded-lg p-2.5 text-sm text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const RoleEditor: React.FC<RoleEditorProps> = ({ role, onSave, onCancel }) => {
+  const [title, setTitle] = useState(role.title);
+  const [competencies, setCompetencies] = useState<Competency[]>(role.competencies);
+  const [focusAreas, setFocusAreas] = useState(role.focusAreas.join('\n'));
+  const [codingInterview, setCodingInterview] = useState(role.codingInterview === true);
+
+  const named = competencies.filter((c) => c.name.trim());
+  const canSave = title.trim().length > 0 && named.length >= MIN_COMPETENCIES;
+
+  const updateCompetency = (index: number, patch: Partial<Competency>) =>
+    setCompetencies(competencies.map((c, i) => (i === index ? { ...c, ...patch } : c)));
+
+  const handleSave = () => {
+    // Ids are derived from the final names so feedback keys stay readable
+    const finalCompetencies: Competency[] = [];
+    for (const c of named) {
+      const name = c.name.trim();
+      finalCompetencies.push({
+        id: toCompetencyId(name, finalCompetencies.map((x) => x.id)),
+        name,
+        description: c.description.trim(),
+        weight: c.weight,
+      });
+    }
+    onSave({
+      ...role,
+      title: title.trim(),
+      competencies: finalCompetencies,
+      focusAreas: focusAreas.split('\n').map((f) => f.trim()).filter(Boolean),
+      codingInterview: codingInterview || undefined,
+    });
+  };
+
+  return (
+    <div className="mt-3 p-4 rounded-xl border border-purple-500/40 bg-slate-900/60 space-y-3">
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Role title, e.g. Site Reliability Engineer"
+        maxLength={60}
+        className={inputClass}
+      />
+
+      <div>
+        <p className="text-xs text-slate-400 mb-1.5">
+          Competencies ({MIN_COMPETENCIES}-{MAX_COMPETENCIES}), weighted 1-5
+        </p>
+        <div className="space-y-2">
+          {competencies.map((competency, i) => (
+            <div key={i} className="p-2 rounded-lg border border-slate-700 bg-slate-800/30 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={competency.name}
+                  onChange={(e) => updateCompetency(i, { name: e.target.value })}
+                  placeholder="Name, e.g. Incident Response"
+                  maxLength={40}
+                  className={inputClass}
+                />
+                <select
+                  value={competency.weight}
+                  onChange={(e) => updateCompetency(i, { weight: Number(e.target.value) })}
+                  aria-label="Competency weight"
+                  className="bg-slate-800/50 border border-slate-700 rounded-lg px-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-purple-500 cursor-pointer"
+                >
+                  {[1, 2, 3, 4, 5].map((w) => (
+                    <option key={w} value={w} className="bg-slate-800 text-white">
+                      ×{w}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => setCompetencies(competencies.filter((_, j) => j !== i))}
+                  disabled={competencies.length <= MIN_COMPETENCIES}
+                  title="Remove competency"
+                  className="p-2 rounded-lg border border-slate-700 text-slate-400 hover:border-red-500 hover:text-red-400 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <input
+                value={competency.description}
+                onChange={(e) => updateCompetency(i, { description: e.target.value })}
+                placeholder="What does good look like?"
+                maxLength={200}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        {competencies.length < MAX_COMPETENCIES && (
+          <button
+            type="button"
+            onClick={() => setCompetencies([...competencies, { id: '', name: '', description: '', weight: 3 }])}
+            className="mt-2 flex items-center gap-1 text-xs px-2.5 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:border-purple-500 hover:text-white transition-colors"
+          >
+            <PlusIcon className="w-3.5 h-3.5" /> Add competency
+          </button>
+        )}
+      </div>
+
+      <textarea
+        value={focusAreas}
+        onChange={(e) => setFocusAreas(e.target.value)}
+        placeholder={'Focus areas, one per line, e.g.\nOn-call and incident handling\nCapacity planning'}
+        rows={3}
+        maxLength={1000}
+        className={inputClass}
+      />
+
+      <label className="flex items-center justify-between gap-3 text-sm text-slate-300 cursor-pointer">
+        Offer the live coding editor
+        <input
+          type="checkbox"
+          checked={codingInterview}
+          onChange={(e) => setCodingInterview(e.target.checked)}
+          className="w-4 h-4 accent-purple-500"
+        />
+      </label>
+
+      <div className="flex justify-end gap-2 pt-1">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700 transition-colors">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={!canSave}
+          className="px-4 py-2 rounded-lg text-sm font-semibold bg-purple-600 hover:bg-purple-500 text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save Role
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RoleEditor;
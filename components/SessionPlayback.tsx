@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChatMessage, GestureEvent, GestureEventType } from '../types';
+import { PlayIcon, PauseIcon, FilmIcon } from '@heroicons/react/24/solid';
+
+interface SessionPlaybackProps {
+  audioUrl?: string; // Without a recording only the transcript is shown
+  durationMs: number;
+  messages: ChatMessage[];
+  gestureEvents?: GestureEvent[];
+  // Message to scroll to and highlight, by index in `messages`; a new key repeats the jump
+  focus?: { messageIndex: number; key: number } | null;
+}
+
+type MarkerKind = 'interruption' | GestureEventType;
+
+interface TimelineMarker {
+  atMs: number;
+  kind: MarkerKind;
+}
+
+const MARKER_STYLES: Record<MarkerKind, { label: string; color: string }> = {
+  interruption: { label: 'Interruption', color: 'bg-red-500' },
+  smile: { label: 'Smile', color: 'bg-yellow-400' },
+  handGesture: { label: 'Hand gesture', color: 'bg-blue-400' },
+  eyeTouch: { label: 'Face touch', color: 'bg-orange-400' },
+  lookAway: { label: 'Looked away', color: 'bg-slate-400' },
+  lookDown: { label: 'Looked down', color: 'bg-rose-400' },
+};
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+const SessionPlayback: React.FC<SessionPlaybackProps> = ({ audioUrl, durationMs, messages, gestureEvents = [], focus }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [currentMs, setCurrentMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [focusedIndex, setFocusedIndex] = useState(-1);
+
+  // Messages in conversation order; typed answers have no timing and cannot be followed or seeked to
+  const timeline = useMemo(() => messages.filter((m) => m.text.trim()), [messages]);
+
+  const markers = useMemo<TimelineMarker[]>(
+    () =>
+      [
+        ...timeline
+          .filter((m) => m.interrupted && m.startMs !== undefined)
+          .map((m) => ({ atMs: m.endMs ?? m.startMs!, kind: 'interruption' as const })),
+        ...gestureEvents.map((e) => ({ atMs: e.atMs, kind: e.type })),
+      ].filter((m) => m.atMs <= durationMs),
+    [timeline, gestureEvents, durationMs],
+  );
+
+  // The message being spoken, or the last one started while nobody is talking
+  let activeIndex = -1;
+  for (let i = 0; i < timeline.length; i++) {
+    const { startMs } = timeline[i];
+    if (startMs === undefined) continue;
+    if (startMs > currentMs) break;
+    activeIndex = i;
+  }
+
+  useEffect(() => {
+    if (activeIndex < 0 || !isPlaying) return;
+    const item = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    item?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex, isPlaying]);
+
+  const seek = (ms: number, play = false) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.max(0, ms) / 1000;
+    setCurrentMs(ms);
+    if (play) audio.play().catch((e) => console.warn('Playback blocked', e));
+  };
+
+  // Jumps to a message when a new focus is requested; scrolls the page as well as the list, so the
+  // message is visible wherever the report is scrolled to. Keyed on `focus` alone: a fresh key is
+  // the request, and re-running when the transcript or playback position changes would yank the view back.
+  useEffect(() => {
+    if (!focus) return;
+    const index = timeline.indexOf(messages[focus.messageIndex]);
+    if (index < 0) return;
+    setFocusedIndex(index);
+    listRef.current?.querySelector<HTMLElement>(`[data-index="${index}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    const { startMs } = timeline[index];
+    if (startMs !== undefined) seek(startMs);
+  }, [focus]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch((e) => console.warn('Playback blocked', e));
+    else audio.pause();
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    seek(ratio * durationMs);
+  };
+
+  const percent = (ms: number) => `${durationMs > 0 ? Math.min(100, (ms / durationMs) * 100) : 0}%`;
+  const presentKinds = (Object.keys(MARKER_STYLES) as MarkerKind[]).filter((kind) => markers.some((m) => m.kind === kind));
+
+  return (
+    <div className="glass-panel p-6 rounded-2xl lg:col-span-2 border-t-4 border-purple-500 order-6 animate-fade-in-up">
+      <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
+        <FilmIcon className="w-6 h-6 text-purple-500" />
+        {audioUrl ? 'Session Playback' : 'Transcript'}
+      </h3>
+
+      {audioUrl && (
+        <>
+          <audio
+            ref={audioRef}
+            src={audioUrl}
+            preload="auto"
+            onTimeUpdate={(e) => setCurrentMs(e.currentTarget.currentTime * 1000)}
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+          />
+
+          <div className="flex items-center gap-3 mb-2">
+            <button
+              onClick={togglePlay}
+              aria-label={isPlaying ? 'Pause playback' : 'Play recording'}
+              className="w-10 h-10 shrink-0 flex items-center justify-center rounded-full bg-purple-600 hover:bg-purple-500 text-white transition-colors"
+            >
+              {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+            </button>
+
+            {/* Timeline: click to seek, dots mark interruptions and gestures */}
+            <div className="relative flex-1 h-6 cursor-pointer" onClick={handleTimelineClick}>
+              <div className="absolute top-1/2 -translate-y-1/2 w-full h-2 rounded-full bg-slate-700 overflow-hidden">
+                <div className="h-full bg-purple-500/70" style={{ width: percent(currentMs) }} />
+              </div>
+              {markers.map((marker, i) => (
+                <span
+                  key={i}
+                  title={`${MARKER_STYLES[marker.kind].label} at ${formatClock(marker.atMs)}`}
+                  className={`absolute top-0 w-1.5 h-6 -ml-[3px] rounded-full ${MARKER_STYLES[marker.kind].color}`}
+                  style={{ left: percent(marker.atMs) }}
+                />
+              ))}
+            </div>
+
+            <span className="text-xs text-slate-400 font-mono tabular-nums shrink-0">
+              {formatClock(currentMs)} / {formatClock(durationMs)}
+            </span>
+          </div>
+
+          {presentKinds.length > 0 && (
+            <div className="flex flex-wrap gap-4 mb-4 text-xs text-slate-400">
+              {presentKinds.map((kind) => (
+                <span key={kind} className="flex items-center gap-1.5">
+                  <span className={`w-2 h-2 rounded-full ${MARKER_STYLES[kind].color}`} />
+                  {MARKER_STYLES[kind].label}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <div ref={listRef} className="max-h-80 overflow-y-auto pr-2 custom-scrollbar flex flex-col gap-2">
+        {timeline.length === 0 && <p className="text-sm text-slate-500 italic">No transcript for this session.</p>}
+        {timeline.map((msg, i) => (
+          <button
+            key={i}
+            data-index={i}
+            onClick={() => msg.startMs !== undefined && seek(msg.startMs, true)}
+            className={`text-left p-3 rounded-lg text-sm border transition-colors ${
+              i === activeIndex && audioUrl
+                ? 'border-purple-500/60 bg-purple-500/10 text-white'
+                : i === focusedIndex
+                  ? 'border-amber-500/60 bg-amber-500/10 text-white'
+                  : 'border-transparent bg-slate-800/40 text-slate-300 hover:bg-slate-800/70'
+            }`}
+          >
+            <span className="block text-xs text-slate-500 mb-1">
+              {msg.startMs !== undefined && <span className="font-mono">{formatClock(msg.startMs)} · </span>}
+              {msg.role === 'user' ? 'You' : 'Interviewer'}
+            </span>
+            {msg.text}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SessionPlayback;
@@ -1,9 +1,41 @@
 
-import React, { useState, useEffect } from 'react';
-import { InterviewConfig, InterviewType, InterviewerPersona } from '../types';
-import { PlayIcon, BriefcaseIcon, UserIcon, PencilSquareIcon, DocumentTextIcon, TrashIcon, ArrowUpTrayIcon, VideoCameraIcon, ChevronDownIcon } from '@heroicons/react/24/solid';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { InterviewConfig, InterviewType, InterviewerPersona, InterviewMode, QuestionBank, QuestionDifficulty, PersonaProfile, RoleDefinition } from '../types';
+import { PlayIcon, BriefcaseIcon, UserIcon, PencilSquareIcon, DocumentTextIcon, TrashIcon, ArrowUpTrayIcon, VideoCameraIcon, ChevronDownIcon, MicrophoneIcon, ChatBubbleBottomCenterTextIcon, SpeakerWaveIcon, ClockIcon, QueueListIcon, PlusIcon, PencilIcon, DocumentDuplicateIcon, ArrowDownTrayIcon, LockClosedIcon, ClipboardDocumentListIcon, LanguageIcon, CodeBracketIcon, PresentationChartLineIcon, EyeIcon } from '@heroicons/react/24/solid';
+import PersonaEditor from './PersonaEditor';
+import RoleEditor from './RoleEditor';
 import { extractTextFromPDF } from '../services/pdfService';
 import { gestureService } from '../services/gestureService';
+import { base64ToUint8Array, decodeAudioData } from '../services/audioService';
+import { createConversationProvider } from '../services/providers';
+import { loadPersonas, findPersona, saveCustomPersonas, duplicatePersona, createPersonaId, exportPersonasJson, parsePersonasJson } from '../services/personaStore';
+import { loadRoles, findRole, saveCustomRoles, duplicateRole, createRoleId } from '../services/roleStore';
+import { parseJobDescription } from '../services/jobDescription';
+import { extractResumeText, parseResume, RESUME_FILE_ACCEPT, UnsupportedFileError } from '../services/resumeService';
+import { isKnownLanguage } from '../services/interviewLanguage';
+import { downloadBlob } from '../services/sessionExport';
+import { loadQuestionBanks, addQuestionBank, deleteQuestionBank, parseQuestionBank, filterBankQuestions, MAX_SESSION_BANK_QUESTIONS } from '../services/questionBank';
+import {
+  INTERVIEWER_VOICES,
+  BUILT_IN_PERSONAS,
+  BUILT_IN_ROLES,
+  DEFAULT_COMPETENCIES,
+  LIVE_MODELS,
+  DEFAULT_LIVE_MODEL,
+  MIN_SPEAKING_RATE,
+  MAX_SPEAKING_RATE,
+  VOICE_PREVIEW_TEXT,
+  INTERVIEW_DURATIONS,
+  WRAP_UP_LEAD_MINUTES,
+  INTERVIEW_LANGUAGES,
+  DEFAULT_LANGUAGE,
+  CODING_LANGUAGES,
+  DEFAULT_CODING_LANGUAGE,
+  CAMERA_FRAME_RATES,
+  CAMERA_FRAME_WIDTHS,
+  DEFAULT_CAMERA_FRAME_RATE,
+  DEFAULT_CAMERA_FRAME_WIDTH,
+} from '../constants';
 
 interface SetupFormProps {
   onStart: (config: InterviewConfig) => void;
@@ -11,6 +43,7 @@ interface SetupFormProps {
 }
 
 const STORAGE_KEY = 'interview_flow_config_v1';
+const MAX_JOB_DESCRIPTION_CHARS = 6000;
 
 const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
   const [config, setConfig] = useState<InterviewConfig>({
@@ -18,11 +51,41 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
     persona: InterviewerPersona.FRIENDLY,
     context: '',
     resumeText: '',
-    enableGestures: false
+    enableGestures: false,
+    mode: InterviewMode.VOICE,
+    speakReplies: true,
+    voiceName: BUILT_IN_PERSONAS[0].voiceName,
+    liveModel: DEFAULT_LIVE_MODEL,
+    speakingRate: 1,
+    durationMinutes: 0,
+    wrapUpMinutes: 5,
+    questionBankId: null,
+    bankDifficulty: 'any',
+    jobDescriptionText: '',
+    language: DEFAULT_LANGUAGE,
+    nativeLanguage: null,
+    codingLanguage: null,
+    enableWhiteboard: false,
+    shareCamera: false,
+    cameraFrameRate: DEFAULT_CAMERA_FRAME_RATE,
+    cameraFrameWidth: DEFAULT_CAMERA_FRAME_WIDTH
   });
   
   const [resumeFileName, setResumeFileName] = useState<string>('');
   const [isExtracting, setIsExtracting] = useState(false);
+  const [isExtractingJd, setIsExtractingJd] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [questionBanks, setQuestionBanks] = useState<QuestionBank[]>(() => loadQuestionBanks());
+  const [personas, setPersonas] = useState<PersonaProfile[]>(() => loadPersonas());
+  const [editingPersona, setEditingPersona] = useState<PersonaProfile | null>(null);
+  const [roles, setRoles] = useState<RoleDefinition[]>(() => loadRoles());
+  const [editingRole, setEditingRole] = useState<RoleDefinition | null>(null);
+  const previewContextRef = useRef<AudioContext | null>(null);
+
+  // Stop any preview still playing when the form goes away
+  useEffect(() => () => {
+    previewContextRef.current?.close().catch(() => {});
+  }, []);
 
   // Load saved config on mount AND pre-load Gesture AI
   useEffect(() => {
@@ -37,10 +100,31 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
         if (parsed.type && parsed.persona) {
           setConfig(prev => ({
              ...prev,
-             type: parsed.type,
-             persona: parsed.persona,
+             type: loadRoles().some(r => r.id === parsed.type) ? parsed.type : InterviewType.SOFTWARE_ENGINEER,
+             persona: loadPersonas().some(p => p.id === parsed.persona) ? parsed.persona : InterviewerPersona.FRIENDLY,
              context: parsed.context || '',
              enableGestures: parsed.enableGestures || false,
+             enableWhiteboard: parsed.enableWhiteboard || false,
+             shareCamera: parsed.shareCamera || false,
+             cameraFrameRate: CAMERA_FRAME_RATES.some(r => r.value === parsed.cameraFrameRate) ? parsed.cameraFrameRate : DEFAULT_CAMERA_FRAME_RATE,
+             cameraFrameWidth: CAMERA_FRAME_WIDTHS.some(w => w.value === parsed.cameraFrameWidth) ? parsed.cameraFrameWidth : DEFAULT_CAMERA_FRAME_WIDTH,
+             mode: parsed.mode === InterviewMode.TEXT ? InterviewMode.TEXT : InterviewMode.VOICE,
+             speakReplies: parsed.speakReplies ?? true,
+             voiceName: INTERVIEWER_VOICES.some(v => v.name === parsed.voiceName)
+               ? parsed.voiceName
+               : findPersona(parsed.persona).voiceName,
+             liveModel: LIVE_MODELS.some(m => m.id === parsed.liveModel) ? parsed.liveModel : DEFAULT_LIVE_MODEL,
+             speakingRate: typeof parsed.speakingRate === 'number'
+               ? Math.min(MAX_SPEAKING_RATE, Math.max(MIN_SPEAKING_RATE, parsed.speakingRate))
+               : 1,
+             durationMinutes: INTERVIEW_DURATIONS.includes(parsed.durationMinutes) ? parsed.durationMinutes : 0,
+             wrapUpMinutes: WRAP_UP_LEAD_MINUTES.includes(parsed.wrapUpMinutes) ? parsed.wrapUpMinutes : prev.wrapUpMinutes,
+             questionBankId: loadQuestionBanks().some(b => b.id === parsed.questionBankId) ? parsed.questionBankId : null,
+             bankDifficulty: ['easy', 'medium', 'hard'].includes(parsed.bankDifficulty) ? parsed.bankDifficulty : 'any',
+             jobDescriptionText: typeof parsed.jobDescriptionText === 'string' ? parsed.jobDescriptionText : '',
+             codingLanguage: CODING_LANGUAGES.some(l => l.id === parsed.codingLanguage) ? parsed.codingLanguage : null,
+             language: isKnownLanguage(parsed.language) ? parsed.language : DEFAULT_LANGUAGE,
+             nativeLanguage: isKnownLanguage(parsed.nativeLanguage) && parsed.nativeLanguage !== parsed.language ? parsed.nativeLanguage : null,
              resumeText: '' // FORCE EMPTY RESUME ON LOAD
           }));
         }
@@ -62,24 +146,20 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
-    if (file.type !== 'application/pdf') {
-        alert("Please upload a PDF file.");
-        return;
-    }
-
     setIsExtracting(true);
     try {
-        const text = await extractTextFromPDF(file);
+        const text = await extractResumeText(file);
         if (text.length < 50) {
-            alert("Could not extract enough text from this PDF. It might be an image-only PDF.");
+            alert("Could not extract enough text from this file. It might be an image-only PDF.");
             return;
         }
         setConfig(prev => ({ ...prev, resumeText: text }));
         setResumeFileName(file.name);
     } catch (err) {
-        alert("Failed to read PDF. Please try a different file.");
+        alert(err instanceof UnsupportedFileError ? err.message : "Failed to read the resume. Please try a different file.");
         console.error(err);
     } finally {
         setIsExtracting(false);
@@ -91,6 +171,188 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
     setResumeFileName('');
   };
 
+  const handleJobDescriptionFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsExtractingJd(true);
+    try {
+      const text = file.type === 'application/pdf' ? await extractTextFromPDF(file) : await file.text();
+      if (text.trim().length < 50) {
+        alert("Could not find enough text in this job description.");
+        return;
+      }
+      setConfig(prev => ({ ...prev, jobDescriptionText: text.slice(0, MAX_JOB_DESCRIPTION_CHARS) }));
+    } catch (err) {
+      alert("Failed to read the job description. Please paste the text instead.");
+      console.error(err);
+    } finally {
+      setIsExtractingJd(false);
+    }
+  };
+
+  const jobDescription = useMemo(
+    () => (config.jobDescriptionText.trim() ? parseJobDescription(config.jobDescriptionText) : null),
+    [config.jobDescriptionText]
+  );
+  const resumeOutline = useMemo(() => {
+    if (!config.resumeText) return '';
+    const resume = parseResume(config.resumeText);
+    const parts = [
+      resume.experience.length && `${resume.experience.length} role${resume.experience.length === 1 ? '' : 's'}`,
+      resume.projects.length && `${resume.projects.length} project${resume.projects.length === 1 ? '' : 's'}`,
+      resume.education.length && `${resume.education.length} education`,
+      resume.skills.length && `${resume.skills.length} skills`,
+    ].filter(Boolean);
+    return parts.length ? parts.join(' · ') : 'Ready (no sections recognised, summary only)';
+  }, [config.resumeText]);
+  const countRequirements = (kind: string) => jobDescription?.requirements.filter(r => r.kind === kind).length ?? 0;
+
+  const selectedRole = findRole(config.type, roles);
+
+  const updateCustomRoles = (next: RoleDefinition[]) => {
+    saveCustomRoles(next);
+    setRoles(loadRoles());
+  };
+
+  const handleSaveRole = (role: RoleDefinition) => {
+    const custom = roles.filter(r => !r.builtIn);
+    const exists = custom.some(r => r.id === role.id);
+    updateCustomRoles(exists ? custom.map(r => (r.id === role.id ? role : r)) : [...custom, role]);
+    setConfig(prev => ({ ...prev, type: role.id }));
+    setEditingRole(null);
+  };
+
+  const handleDeleteRole = () => {
+    if (selectedRole.builtIn || !confirm(`Delete role "${selectedRole.title}"?`)) return;
+    updateCustomRoles(roles.filter(r => !r.builtIn && r.id !== selectedRole.id));
+    setConfig(prev => ({ ...prev, type: BUILT_IN_ROLES[0].id }));
+    setEditingRole(null);
+  };
+
+  const handleNewRole = () => {
+    setEditingRole({
+      id: createRoleId(),
+      title: '',
+      competencies: DEFAULT_COMPETENCIES.map(c => ({ ...c })),
+      focusAreas: [],
+    });
+  };
+
+  const selectedPersona = findPersona(config.persona, personas);
+
+  // Choosing a persona also switches to its voice
+  const selectPersona = (persona: PersonaProfile) => {
+    setConfig(prev => ({ ...prev, persona: persona.id, voiceName: persona.voiceName }));
+  };
+
+  const updateCustomPersonas = (next: PersonaProfile[]) => {
+    saveCustomPersonas(next);
+    setPersonas(loadPersonas());
+  };
+
+  const handleSavePersona = (persona: PersonaProfile) => {
+    const custom = personas.filter(p => !p.builtIn);
+    const exists = custom.some(p => p.id === persona.id);
+    updateCustomPersonas(exists ? custom.map(p => (p.id === persona.id ? persona : p)) : [...custom, persona]);
+    selectPersona(persona);
+    setEditingPersona(null);
+  };
+
+  const handleDeletePersona = () => {
+    if (selectedPersona.builtIn || !confirm(`Delete persona "${selectedPersona.name}"?`)) return;
+    updateCustomPersonas(personas.filter(p => !p.builtIn && p.id !== selectedPersona.id));
+    selectPersona(BUILT_IN_PERSONAS[0]);
+    setEditingPersona(null);
+  };
+
+  const handleNewPersona = () => {
+    setEditingPersona({
+      id: createPersonaId(),
+      name: '',
+      instructions: '',
+      voiceName: INTERVIEWER_VOICES[0].name,
+      followUpLevel: 'moderate',
+      interruptionTolerance: 'balanced',
+    });
+  };
+
+  const handleExportPersonas = () => {
+    downloadBlob(new Blob([exportPersonasJson(personas)], { type: 'application/json' }), 'interview-personas.json');
+  };
+
+  const handlePersonaImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = parsePersonasJson(await file.text());
+      updateCustomPersonas([...personas.filter(p => !p.builtIn), ...imported]);
+      selectPersona(imported[0]);
+    } catch (err: any) {
+      alert(`Could not import personas: ${err?.message || 'invalid JSON'}`);
+      console.error(err);
+    }
+  };
+
+  const handleBankImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+
+    try {
+      const bank = parseQuestionBank(file.name, await file.text());
+      setQuestionBanks(addQuestionBank(bank));
+      setConfig(prev => ({ ...prev, questionBankId: bank.id }));
+    } catch (err: any) {
+      alert(`Could not import question bank: ${err?.message || 'unreadable file'}`);
+      console.error(err);
+    }
+  };
+
+  const removeQuestionBank = () => {
+    if (!config.questionBankId) return;
+    setQuestionBanks(deleteQuestionBank(config.questionBankId));
+    setConfig(prev => ({ ...prev, questionBankId: null }));
+  };
+
+  const selectedBank = questionBanks.find(b => b.id === config.questionBankId);
+  const matchingBankQuestions = selectedBank ? filterBankQuestions(selectedBank, selectedRole.title, config.bankDifficulty).length : 0;
+
+  const handlePreviewVoice = async () => {
+    setIsPreviewing(true);
+    try {
+      const provider = createConversationProvider();
+      if (!provider.previewVoice) {
+        alert(`${provider.name} does not support voice previews.`);
+        return;
+      }
+
+      const audio = await provider.previewVoice({
+        text: VOICE_PREVIEW_TEXT,
+        voiceName: config.voiceName,
+        speakingRate: config.speakingRate,
+      });
+
+      await previewContextRef.current?.close().catch(() => {});
+      const ctx = new AudioContext({ sampleRate: 24000 });
+      previewContextRef.current = ctx;
+      const buffer = await decodeAudioData(base64ToUint8Array(audio), ctx, 24000, 1);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => ctx.close().catch(() => {});
+      source.start();
+    } catch (err) {
+      alert("Voice preview failed. Check your API key and network connection.");
+      console.error(err);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     onStart(config);
@@ -114,12 +376,12 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
           <div className="relative">
             <select
               value={config.type}
-              onChange={(e) => setConfig({ ...config, type: e.target.value as InterviewType })}
+              onChange={(e) => setConfig({ ...config, type: e.target.value })}
               className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-xl p-3 pr-10 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm md:text-base shadow-sm cursor-pointer hover:bg-slate-800/80"
             >
-              {Object.values(InterviewType).map((role) => (
-                <option key={role} value={role} className="bg-slate-800 text-white">
-                  {role}
+              {roles.map((role) => (
+                <option key={role.id} value={role.id} className="bg-slate-800 text-white">
+                  {role.title}
                 </option>
               ))}
             </select>
@@ -127,6 +389,67 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
               <ChevronDownIcon className="w-5 h-5" />
             </div>
           </div>
+
+          <p className="mt-2 text-xs text-slate-500 truncate" title={selectedRole.competencies.map(c => c.name).join(', ')}>
+            Assessed on: {selectedRole.competencies.map(c => c.name).join(', ')}
+          </p>
+
+          {selectedRole.codingInterview && (
+            <div className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50">
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={config.codingLanguage !== null}
+                  onChange={(e) => setConfig({ ...config, codingLanguage: e.target.checked ? DEFAULT_CODING_LANGUAGE : null })}
+                  className="w-4 h-4 accent-emerald-500"
+                />
+                <CodeBracketIcon className="w-4 h-4 text-emerald-400" /> Live coding editor
+              </label>
+              {config.codingLanguage !== null && (
+                <select
+                  value={config.codingLanguage}
+                  onChange={(e) => setConfig({ ...config, codingLanguage: e.target.value })}
+                  aria-label="Coding language"
+                  className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  {CODING_LANGUAGES.map((language) => (
+                    <option key={language.id} value={language.id}>
+                      {language.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+            {[
+              { label: 'New', Icon: PlusIcon, onClick: handleNewRole, show: true },
+              { label: 'Edit', Icon: PencilIcon, onClick: () => setEditingRole(selectedRole), show: !selectedRole.builtIn },
+              { label: 'Duplicate', Icon: DocumentDuplicateIcon, onClick: () => setEditingRole(duplicateRole(selectedRole)), show: true },
+              { label: 'Delete', Icon: TrashIcon, onClick: handleDeleteRole, show: !selectedRole.builtIn },
+            ]
+              .filter(action => action.show)
+              .map(({ label, Icon, onClick }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={onClick}
+                  className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-slate-700 text-slate-400 hover:border-blue-500 hover:text-white transition-colors"
+                >
+                  <Icon className="w-3 h-3" /> {label}
+                </button>
+              ))}
+          </div>
+
+          {editingRole && (
+            <RoleEditor
+              key={editingRole.id}
+              role={editingRole}
+              onSave={handleSaveRole}
+              onCancel={() => setEditingRole(null)}
+            />
+          )}
         </div>
 
         {/* Persona Selection */}
@@ -135,34 +458,338 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
             <UserIcon className="w-4 h-4 text-purple-400" /> Interviewer Persona
           </label>
           <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 md:gap-3">
-            {Object.values(InterviewerPersona).map((persona) => (
+            {personas.map((persona) => (
               <button
-                key={persona}
+                key={persona.id}
                 type="button"
-                onClick={() => setConfig({ ...config, persona })}
-                className={`p-3 rounded-lg border text-center text-sm transition-all ${
-                  config.persona === persona
+                onClick={() => selectPersona(persona)}
+                className={`p-3 rounded-lg border text-center text-sm transition-all flex items-center justify-center gap-1.5 ${
+                  config.persona === persona.id
                     ? 'border-purple-500 bg-purple-500/20 text-white shadow-[0_0_15px_rgba(168,85,247,0.5)]'
                     : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-500 hover:bg-slate-700'
                 }`}
               >
-                {persona}
+                {persona.builtIn && <LockClosedIcon className="w-3 h-3 shrink-0 opacity-60" />}
+                <span className="truncate">{persona.name}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+            {[
+              { label: 'New', Icon: PlusIcon, onClick: handleNewPersona, show: true },
+              { label: 'Edit', Icon: PencilIcon, onClick: () => setEditingPersona(selectedPersona), show: !selectedPersona.builtIn },
+              { label: 'Duplicate', Icon: DocumentDuplicateIcon, onClick: () => setEditingPersona(duplicatePersona(selectedPersona)), show: true },
+              { label: 'Delete', Icon: TrashIcon, onClick: handleDeletePersona, show: !selectedPersona.builtIn },
+              { label: 'Export', Icon: ArrowDownTrayIcon, onClick: handleExportPersonas, show: personas.some(p => !p.builtIn) },
+            ]
+              .filter(action => action.show)
+              .map(({ label, Icon, onClick }) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={onClick}
+                  className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-slate-700 text-slate-400 hover:border-purple-500 hover:text-white transition-colors"
+                >
+                  <Icon className="w-3 h-3" /> {label}
+                </button>
+              ))}
+            <label className="flex items-center gap-1 px-2.5 py-1 rounded-lg border border-slate-700 text-slate-400 hover:border-purple-500 hover:text-white transition-colors cursor-pointer">
+              <ArrowUpTrayIcon className="w-3 h-3" /> Import
+              <input type="file" accept=".json,application/json" onChange={handlePersonaImport} className="hidden" />
+            </label>
+            {selectedPersona.builtIn && <span className="text-slate-500 ml-1">Presets are read-only; duplicate to customize.</span>}
+          </div>
+
+          {editingPersona && (
+            <PersonaEditor
+              key={editingPersona.id}
+              persona={editingPersona}
+              onSave={handleSavePersona}
+              onCancel={() => setEditingPersona(null)}
+            />
+          )}
+        </div>
+
+        {/* Answer Mode */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+            <ChatBubbleBottomCenterTextIcon className="w-4 h-4 text-sky-400" /> Answer Mode
+          </label>
+          <div className="grid grid-cols-2 gap-2 md:gap-3">
+            {[
+              { mode: InterviewMode.VOICE, label: 'Speak', Icon: MicrophoneIcon },
+              { mode: InterviewMode.TEXT, label: 'Type', Icon: ChatBubbleBottomCenterTextIcon },
+            ].map(({ mode, label, Icon }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setConfig({ ...config, mode })}
+                className={`p-3 rounded-lg border text-sm transition-all flex items-center justify-center gap-2 ${
+                  config.mode === mode
+                    ? 'border-sky-500 bg-sky-500/20 text-white shadow-[0_0_15px_rgba(14,165,233,0.4)]'
+                    : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-500 hover:bg-slate-700'
+                }`}
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+
+          {config.mode === InterviewMode.TEXT && (
+            <label className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50 cursor-pointer">
+              <span className="flex items-center gap-2 text-sm text-slate-300">
+                <SpeakerWaveIcon className="w-4 h-4 text-sky-400" /> Speak interviewer replies aloud
+              </span>
+              <input
+                type="checkbox"
+                checked={config.speakReplies}
+                onChange={(e) => setConfig({ ...config, speakReplies: e.target.checked })}
+                className="w-4 h-4 accent-sky-500"
+              />
+            </label>
+          )}
+        </div>
+
+        {/* Language */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+            <LanguageIcon className="w-4 h-4 text-violet-400" /> Interview Language
+          </label>
+          <div className="relative">
+            <select
+              value={config.language}
+              onChange={(e) => {
+                const language = e.target.value;
+                setConfig(prev => ({ ...prev, language, nativeLanguage: prev.nativeLanguage === language ? null : prev.nativeLanguage }));
+              }}
+              className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-xl p-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent transition-all text-sm cursor-pointer hover:bg-slate-800/80"
+            >
+              {INTERVIEW_LANGUAGES.map((language) => (
+                <option key={language.code} value={language.code} className="bg-slate-800 text-white">
+                  {language.nativeName}{language.nativeName !== language.name ? ` (${language.name})` : ''}
+                </option>
+              ))}
+            </select>
+            <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-slate-400">
+              <ChevronDownIcon className="w-5 h-5" />
+            </div>
+          </div>
+
+          <label className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50 cursor-pointer">
+            <span className="text-sm text-slate-300">
+              Mixed mode: I'm practicing this language
+              <span className="block text-xs text-slate-500">Fall back to your own language when stuck and get language coaching in the report.</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={config.nativeLanguage !== null}
+              onChange={(e) => setConfig(prev => ({
+                ...prev,
+                nativeLanguage: e.target.checked ? INTERVIEW_LANGUAGES.find(l => l.code !== prev.language)!.code : null,
+              }))}
+              className="w-4 h-4 accent-violet-500 shrink-0"
+            />
+          </label>
+
+          {config.nativeLanguage !== null && (
+            <label className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50">
+              <span className="text-sm text-slate-300">My native language</span>
+              <select
+                value={config.nativeLanguage}
+                onChange={(e) => setConfig({ ...config, nativeLanguage: e.target.value })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500"
+              >
+                {INTERVIEW_LANGUAGES.filter(l => l.code !== config.language).map((language) => (
+                  <option key={language.code} value={language.code} className="bg-slate-800 text-white">
+                    {language.nativeName}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Duration */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+            <ClockIcon className="w-4 h-4 text-amber-400" /> Interview Length
+          </label>
+          <div className="grid grid-cols-4 gap-2 md:gap-3">
+            {INTERVIEW_DURATIONS.map((minutes) => (
+              <button
+                key={minutes}
+                type="button"
+                onClick={() => setConfig({ ...config, durationMinutes: minutes })}
+                className={`p-3 rounded-lg border text-sm transition-all ${
+                  config.durationMinutes === minutes
+                    ? 'border-amber-500 bg-amber-500/20 text-white shadow-[0_0_15px_rgba(245,158,11,0.4)]'
+                    : 'border-slate-700 bg-slate-800/50 text-slate-400 hover:border-slate-500 hover:bg-slate-700'
+                }`}
+              >
+                {minutes === 0 ? 'No limit' : `${minutes} min`}
               </button>
             ))}
           </div>
+
+          {config.durationMinutes > 0 && (
+            <label className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50">
+              <span className="text-sm text-slate-300">Start wrapping up</span>
+              <select
+                value={config.wrapUpMinutes}
+                onChange={(e) => setConfig({ ...config, wrapUpMinutes: Number(e.target.value) })}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-amber-500"
+              >
+                {WRAP_UP_LEAD_MINUTES.filter((lead) => lead < config.durationMinutes).map((lead) => (
+                  <option key={lead} value={lead}>
+                    {lead} min before the end
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+
+        {/* Interviewer Voice */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+            <SpeakerWaveIcon className="w-4 h-4 text-pink-400" /> Interviewer Voice
+          </label>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 md:gap-3">
+            <div className="relative">
+              <select
+                value={config.voiceName}
+                onChange={(e) => setConfig({ ...config, voiceName: e.target.value })}
+                aria-label="Voice"
+                className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-xl p-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm shadow-sm cursor-pointer hover:bg-slate-800/80"
+              >
+                {INTERVIEWER_VOICES.map((voice) => (
+                  <option key={voice.name} value={voice.name} className="bg-slate-800 text-white">
+                    {voice.name} ({voice.description})
+                  </option>
+                ))}
+              </select>
+              <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-slate-400">
+                <ChevronDownIcon className="w-5 h-5" />
+              </div>
+            </div>
+            <div className="relative">
+              <select
+                value={config.liveModel}
+                onChange={(e) => setConfig({ ...config, liveModel: e.target.value })}
+                aria-label="Model"
+                className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-xl p-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm shadow-sm cursor-pointer hover:bg-slate-800/80"
+              >
+                {LIVE_MODELS.map((model) => (
+                  <option key={model.id} value={model.id} className="bg-slate-800 text-white">
+                    {model.label}
+                  </option>
+                ))}
+              </select>
+              <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-slate-400">
+                <ChevronDownIcon className="w-5 h-5" />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-3 flex items-center gap-3">
+            <span className="text-xs text-slate-400 shrink-0">Pace</span>
+            <input
+              type="range"
+              min={MIN_SPEAKING_RATE}
+              max={MAX_SPEAKING_RATE}
+              step={0.05}
+              value={config.speakingRate}
+              onChange={(e) => setConfig({ ...config, speakingRate: Number(e.target.value) })}
+              className="flex-1 accent-pink-500"
+            />
+            <span className="text-xs text-slate-300 font-mono w-12 text-right">{config.speakingRate.toFixed(2)}x</span>
+            <button
+              type="button"
+              onClick={handlePreviewVoice}
+              disabled={isPreviewing}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-slate-700 bg-slate-800/50 text-xs text-slate-300 hover:border-pink-500 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <PlayIcon className="w-3.5 h-3.5" /> {isPreviewing ? 'Loading...' : 'Preview'}
+            </button>
+          </div>
+        </div>
+
+        {/* Question Bank */}
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
+            <QueueListIcon className="w-4 h-4 text-teal-400" /> Question Bank (Optional)
+          </label>
+          <div className="flex gap-2">
+            <div className="relative flex-1 min-w-0">
+              <select
+                value={config.questionBankId ?? ''}
+                onChange={(e) => setConfig({ ...config, questionBankId: e.target.value || null })}
+                aria-label="Question bank"
+                className="w-full appearance-none bg-slate-800/50 border border-slate-700 rounded-xl p-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all text-sm shadow-sm cursor-pointer hover:bg-slate-800/80"
+              >
+                <option value="" className="bg-slate-800 text-white">None (interviewer's own questions)</option>
+                {questionBanks.map((bank) => (
+                  <option key={bank.id} value={bank.id} className="bg-slate-800 text-white">
+                    {bank.name} ({bank.questions.length})
+                  </option>
+                ))}
+              </select>
+              <div className="absolute inset-y-0 right-0 flex items-center px-3 pointer-events-none text-slate-400">
+                <ChevronDownIcon className="w-5 h-5" />
+              </div>
+            </div>
+            <label
+              className="flex items-center gap-1.5 px-3 rounded-xl border border-slate-700 bg-slate-800/50 text-sm text-slate-300 hover:border-teal-500 hover:text-white transition-colors cursor-pointer shrink-0"
+              title="Import JSON, CSV or Markdown"
+            >
+              <ArrowUpTrayIcon className="w-4 h-4" /> Import
+              <input type="file" accept=".json,.csv,.md,.markdown,.txt" onChange={handleBankImport} className="hidden" />
+            </label>
+            {selectedBank && (
+              <button
+                type="button"
+                onClick={removeQuestionBank}
+                className="p-3 rounded-xl border border-slate-700 bg-slate-800/50 text-slate-400 hover:bg-red-500/20 hover:text-red-400 transition-colors shrink-0"
+                title="Delete this question bank"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+
+          {selectedBank && (
+            <div className="mt-3 flex items-center justify-between gap-3 p-3 rounded-xl border border-slate-700 bg-slate-800/50">
+              <span className="text-xs text-slate-400">
+                {matchingBankQuestions} question{matchingBankQuestions === 1 ? '' : 's'} match this role
+                {matchingBankQuestions > MAX_SESSION_BANK_QUESTIONS && ` (${MAX_SESSION_BANK_QUESTIONS} drawn per session)`}
+              </span>
+              <select
+                value={config.bankDifficulty}
+                onChange={(e) => setConfig({ ...config, bankDifficulty: e.target.value as QuestionDifficulty | 'any' })}
+                aria-label="Difficulty"
+                className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-teal-500"
+              >
+                <option value="any">Any difficulty</option>
+                <option value="easy">Easy</option>
+                <option value="medium">Medium</option>
+                <option value="hard">Hard</option>
+              </select>
+            </div>
+          )}
         </div>
 
         {/* Resume Upload */}
         <div>
             <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
-                <DocumentTextIcon className="w-4 h-4 text-orange-400" /> Upload Resume (PDF)
+                <DocumentTextIcon className="w-4 h-4 text-orange-400" /> Upload Resume (PDF, DOCX, TXT)
             </label>
             
             {!config.resumeText ? (
                 <div className="relative group">
                     <input 
                         type="file" 
-                        accept="application/pdf"
+                        accept={RESUME_FILE_ACCEPT}
                         onChange={handleFileChange}
                         disabled={isExtracting}
                         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
@@ -180,7 +807,7 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
                         ) : (
                             <>
                                 <ArrowUpTrayIcon className="w-5 h-5 text-slate-400" />
-                                <span className="text-slate-400 text-sm">Upload PDF resume</span>
+                                <span className="text-slate-400 text-sm">Upload resume</span>
                             </>
                         )}
                     </div>
@@ -193,7 +820,7 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
                         </div>
                         <div className="min-w-0">
                              <p className="text-sm font-medium text-white truncate">{resumeFileName || "Resume Uploaded"}</p>
-                             <p className="text-xs text-green-400">Ready</p>
+                             <p className="text-xs text-green-400 truncate">{resumeOutline}</p>
                         </div>
                     </div>
                     <button
@@ -208,6 +835,57 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
             )}
         </div>
 
+        {/* Job Description */}
+        <div>
+            <div className="flex items-center justify-between gap-2 text-sm font-medium text-slate-300 mb-2">
+                <span className="flex items-center gap-2">
+                    <ClipboardDocumentListIcon className="w-4 h-4 text-cyan-400" /> Job Description (Optional)
+                </span>
+                <span className="flex items-center gap-1.5">
+                    <span className="relative flex items-center gap-1 text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-400 hover:border-cyan-500 hover:text-white transition-colors cursor-pointer">
+                        {isExtractingJd ? (
+                            <div className="w-3 h-3 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin" />
+                        ) : (
+                            <ArrowUpTrayIcon className="w-3 h-3" />
+                        )}
+                        PDF / TXT
+                        <input
+                            type="file"
+                            accept="application/pdf,.txt,text/plain"
+                            onChange={handleJobDescriptionFile}
+                            disabled={isExtractingJd}
+                            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                        />
+                    </span>
+                    {config.jobDescriptionText && (
+                        <button
+                            type="button"
+                            onClick={() => setConfig(prev => ({ ...prev, jobDescriptionText: '' }))}
+                            className="p-1 hover:bg-red-500/20 text-slate-400 hover:text-red-400 rounded-lg transition-colors"
+                            title="Clear Job Description"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    )}
+                </span>
+            </div>
+            <textarea
+                value={config.jobDescriptionText}
+                onChange={(e) => setConfig({ ...config, jobDescriptionText: e.target.value })}
+                placeholder="Paste the job posting to have the interviewer probe its requirements..."
+                rows={4}
+                maxLength={MAX_JOB_DESCRIPTION_CHARS}
+                className="w-full bg-slate-800/50 border border-slate-700 rounded-xl p-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-transparent transition-all text-sm"
+            />
+            {jobDescription && (
+                <p className={`mt-1.5 text-xs ${jobDescription.requirements.length ? 'text-cyan-400' : 'text-amber-400'}`}>
+                    {jobDescription.requirements.length
+                        ? `Found ${countRequirements('skill')} skills, ${countRequirements('responsibility')} responsibilities and ${countRequirements('seniority')} seniority signals; the interviewer will probe these and feedback will include a job fit section.`
+                        : "No requirements recognised yet. Bullet lists under headings like Requirements or Responsibilities work best."}
+                </p>
+            )}
+        </div>
+
         {/* Gesture Analysis Toggle */}
         <div>
            <button
@@ -237,6 +915,89 @@ const SetupForm: React.FC<SetupFormProps> = ({ onStart, isLoading }) => {
            </button>
         </div>
 
+        {/* Camera Sharing Toggle */}
+        <div>
+           <button
+             type="button"
+             onClick={() => setConfig(prev => ({ ...prev, shareCamera: !prev.shareCamera }))}
+             className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${
+                config.shareCamera
+                ? 'bg-rose-500/20 border-rose-500 shadow-[0_0_15px_rgba(244,63,94,0.3)]'
+                : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+             }`}
+           >
+              <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-lg ${config.shareCamera ? 'bg-rose-500 text-white' : 'bg-slate-700 text-slate-400'}`}>
+                    <EyeIcon className="w-5 h-5" />
+                </div>
+                <div className="text-left">
+                    <p className={`text-sm font-semibold ${config.shareCamera ? 'text-white' : 'text-slate-400'}`}>
+                        Let the Interviewer See You
+                    </p>
+                    <p className="text-xs text-slate-500">Sends camera snapshots so it can react to presence & eye contact</p>
+                </div>
+              </div>
+
+              <div className={`w-12 h-6 rounded-full p-1 transition-colors ${config.shareCamera ? 'bg-rose-500' : 'bg-slate-700'}`}>
+                 <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${config.shareCamera ? 'translate-x-6' : 'translate-x-0'}`} />
+              </div>
+           </button>
+           {config.shareCamera && (
+             <div className="mt-2 grid grid-cols-2 gap-2">
+               <select
+                 value={config.cameraFrameRate}
+                 onChange={(e) => setConfig({ ...config, cameraFrameRate: Number(e.target.value) })}
+                 aria-label="Camera frame rate"
+                 className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-rose-500"
+               >
+                 {CAMERA_FRAME_RATES.map(rate => (
+                   <option key={rate.value} value={rate.value}>{rate.label}</option>
+                 ))}
+               </select>
+               <select
+                 value={config.cameraFrameWidth}
+                 onChange={(e) => setConfig({ ...config, cameraFrameWidth: Number(e.target.value) })}
+                 aria-label="Camera frame resolution"
+                 className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-rose-500"
+               >
+                 {CAMERA_FRAME_WIDTHS.map(width => (
+                   <option key={width.value} value={width.value}>{width.label}</option>
+                 ))}
+               </select>
+               <p className="col-span-2 text-xs text-slate-500">Higher rates and resolutions use more bandwidth and tokens.</p>
+             </div>
+           )}
+        </div>
+
+        {/* Whiteboard Toggle */}
+        <div>
+           <button
+             type="button"
+             onClick={() => setConfig(prev => ({ ...prev, enableWhiteboard: !prev.enableWhiteboard }))}
+             className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${
+                config.enableWhiteboard
+                ? 'bg-amber-500/20 border-amber-500 shadow-[0_0_15px_rgba(245,158,11,0.3)]'
+                : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+             }`}
+           >
+              <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-lg ${config.enableWhiteboard ? 'bg-amber-500 text-white' : 'bg-slate-700 text-slate-400'}`}>
+                    <PresentationChartLineIcon className="w-5 h-5" />
+                </div>
+                <div className="text-left">
+                    <p className={`text-sm font-semibold ${config.enableWhiteboard ? 'text-white' : 'text-slate-400'}`}>
+                        System Design Whiteboard
+                    </p>
+                    <p className="text-xs text-slate-500">Sketch boxes, arrows and labels the interviewer can see</p>
+                </div>
+              </div>
+
+              <div className={`w-12 h-6 rounded-full p-1 transition-colors ${config.enableWhiteboard ? 'bg-amber-500' : 'bg-slate-700'}`}>
+                 <div className={`w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${config.enableWhiteboard ? 'translate-x-6' : 'translate-x-0'}`} />
+              </div>
+           </button>
+        </div>
+
         {/* Context */}
         <div>
            <label className="block text-sm font-medium text-slate-300 mb-2 flex items-center gap-2">
@@ -0,0 +1,63 @@
+import React from 'react';
+import { AgendaStage } from '../types';
+import { CheckIcon, ForwardIcon } from '@heroicons/react/24/solid';
+
+interface StageTrackerProps {
+  stages: AgendaStage[];
+  currentIndex: number;
+  answers: number; // Answers given in the current stage
+  onNext: () => void;
+  canAdvance: boolean;
+}
+
+const StageTracker: React.FC<StageTrackerProps> = ({ stages, currentIndex, answers, onNext, canAdvance }) => {
+  const current = stages[currentIndex];
+  if (!current) return null;
+  const isLast = currentIndex >= stages.length - 1;
+
+  return (
+    <div className="w-full glass-panel bg-slate-900/80 rounded-2xl px-4 py-3 border-t border-slate-700/50">
+      <div className="flex items-center gap-1.5 sm:gap-2">
+        {stages.map((stage, i) => (
+          <div key={stage.id} className="flex-1 min-w-0" title={`${stage.title} (~${stage.targetMinutes} min)`}>
+            <div
+              className={`h-1.5 rounded-full transition-colors ${
+                i < currentIndex ? 'bg-emerald-500' : i === currentIndex ? 'bg-blue-500 animate-pulse' : 'bg-slate-700'
+              }`}
+            />
+            <p
+              className={`hidden sm:flex items-center gap-1 mt-1.5 text-[11px] truncate ${
+                i === currentIndex ? 'text-white font-semibold' : i < currentIndex ? 'text-emerald-400' : 'text-slate-500'
+              }`}
+            >
+              {i < currentIndex && <CheckIcon className="w-3 h-3 shrink-0" />}
+              {stage.title}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 mt-2">
+        <p className="text-xs text-slate-400 truncate">
+          <span className="text-slate-200 font-medium">
+            Stage {currentIndex + 1}/{stages.length}: {current.title}
+          </span>
+          <span className="ml-2">
+            {Math.min(answers, current.questionCount)}/{current.questionCount} answered
+          </span>
+        </p>
+        {!isLast && (
+          <button
+            onClick={onNext}
+            disabled={!canAdvance}
+            className="flex items-center gap-1 text-xs px-2.5 py-1 rounded-lg border border-slate-700 text-slate-300 hover:border-blue-500 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
+          >
+            Next stage <ForwardIcon className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StageTracker;
@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  PresentationChartLineIcon,
+  PencilIcon,
+  StopIcon,
+  ArrowLongRightIcon,
+  ChatBubbleBottomCenterTextIcon,
+  ArrowUturnLeftIcon,
+  TrashIcon,
+  ShareIcon,
+} from '@heroicons/react/24/solid';
+
+interface WhiteboardProps {
+  onChange: (image: string | null) => void; // JPEG data URL after each edit, null once the board is empty
+  onShare: () => void;
+  disabled: boolean;
+  status: string; // e.g. "Version 2 shared" or "Unshared changes"
+}
+
+type Tool = 'pen' | 'box' | 'arrow' | 'text';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface PendingLabel {
+  at: Point;
+  text: string;
+}
+
+type Shape =
+  | { tool: 'pen'; points: Point[] }
+  | { tool: 'box' | 'arrow'; from: Point; to: Point }
+  | { tool: 'text'; at: Point; text: string };
+
+// Fixed drawing resolution; the canvas is scaled to fit the panel
+const WIDTH = 1280;
+const HEIGHT = 720;
+const INK = '#0f172a';
+const FONT = '28px ui-sans-serif, system-ui, sans-serif';
+
+const TOOLS: { id: Tool; label: string; Icon: typeof PencilIcon }[] = [
+  { id: 'pen', label: 'Freehand', Icon: PencilIcon },
+  { id: 'box', label: 'Box', Icon: StopIcon },
+  { id: 'arrow', label: 'Arrow', Icon: ArrowLongRightIcon },
+  { id: 'text', label: 'Label', Icon: ChatBubbleBottomCenterTextIcon },
+];
+
+const drawShape = (ctx: CanvasRenderingContext2D, shape: Shape) => {
+  ctx.beginPath();
+  switch (shape.tool) {
+    case 'pen':
+      shape.points.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+      ctx.stroke();
+      break;
+    case 'box':
+      ctx.strokeRect(shape.from.x, shape.from.y, shape.to.x - shape.from.x, shape.to.y - shape.from.y);
+      break;
+    case 'arrow': {
+      const { from, to } = shape;
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      for (const side of [-1, 1]) {
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - 18 * Math.cos(angle + side * 0.45), to.y - 18 * Math.sin(angle + side * 0.45));
+      }
+      ctx.stroke();
+      break;
+    }
+    case 'text':
+      ctx.fillText(shape.text, shape.at.x, shape.at.y);
+      break;
+  }
+};
+
+// Boxes, arrows, labels and freehand strokes on a white canvas, exported as JPEG for the interviewer
+const Whiteboard: React.FC<WhiteboardProps> = ({ onChange, onShare, disabled, status }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<Tool>('box');
+  const [shapes, setShapes] = useState<Shape[]>([]);
+  const [draft, setDraft] = useState<Shape | null>(null);
+  const [pendingLabel, setPendingLabel] = useState<PendingLabel | null>(null);
+  // Mirrors pendingLabel so Enter, Escape and the blur that follows them only finish it once
+  const labelRef = useRef<PendingLabel | null>(null);
+  const isFirstRender = useRef(true);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.strokeStyle = INK;
+    ctx.fillStyle = INK;
+    ctx.lineWidth = 3;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.font = FONT;
+    ctx.textBaseline = 'middle';
+    [...shapes, ...(draft ? [draft] : [])].forEach((shape) => drawShape(ctx, shape));
+  }, [shapes, draft]);
+
+  // Runs after the redraw above, so the export matches what is on screen
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    onChange(shapes.length && canvasRef.current ? canvasRef.current.toDataURL('image/jpeg', 0.8) : null);
+  }, [shapes]);
+
+  const toPoint = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT,
+    };
+  };
+
+  const editLabel = (label: PendingLabel | null) => {
+    labelRef.current = label;
+    setPendingLabel(label);
+  };
+
+  const finishLabel = (keep: boolean) => {
+    const label = labelRef.current;
+    if (!label) return;
+    editLabel(null);
+    const text = label.text.trim();
+    if (keep && text) setShapes((prev) => [...prev, { tool: 'text', at: label.at, text }]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const point = toPoint(e);
+    if (tool === 'text') {
+      // A click elsewhere finishes the open label; the next click starts a new one
+      if (labelRef.current) finishLabel(true);
+      else editLabel({ at: point, text: '' });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDraft(tool === 'pen' ? { tool, points: [point] } : { tool, from: point, to: point });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toPoint(e);
+    if (draft.tool === 'pen') setDraft({ ...draft, points: [...draft.points, point] });
+    else if (draft.tool !== 'text') setDraft({ ...draft, to: point });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    // Ignore clicks that did not draw anything
+    const drewSomething =
+      draft.tool === 'pen'
+        ? draft.points.length > 1
+        : draft.tool !== 'text' && Math.hypot(draft.to.x - draft.from.x, draft.to.y - draft.from.y) > 8;
+    if (drewSomething) setShapes((prev) => [...prev, draft]);
+    setDraft(null);
+  };
+
+  return (
+    <div className="w-full glass-panel bg-slate-900/80 rounded-2xl p-4 border-t border-slate-700/50 flex flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 border-b border-slate-700/50 pb-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <PresentationChartLineIcon className="w-4 h-4 text-amber-400 shrink-0" />
+          <h3 className="text-sm font-semibold text-slate-300">Whiteboard</h3>
+          <span className="text-[11px] text-slate-500 truncate">{status}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {TOOLS.map(({ id, label, Icon }) => (
+            <button
+              key={id}
+              type="button"
+              onClick={() => setTool(id)}
+              title={label}
+              aria-pressed={tool === id}
+              className={`p-1.5 rounded-lg transition-colors ${tool === id ? 'bg-amber-500 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+          <div className="w-px h-5 bg-slate-700 mx-1" />
+          <button
+            type="button"
+            onClick={() => setShapes((prev) => prev.slice(0, -1))}
+            disabled={!shapes.length}
+            title="Undo"
+            className="p-1.5 rounded-lg bg-slate-800 text-slate-400 hover:text-white disabled:opacity-40"
+          >
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setShapes([])}
+            disabled={!shapes.length}
+            title="Clear"
+            className="p-1.5 rounded-lg bg-slate-800 text-slate-400 hover:text-red-400 disabled:opacity-40"
+          >
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative rounded-xl overflow-hidden border border-slate-700">
+        <canvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDraft(null)}
+          className={`block w-full aspect-video touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}`}
+        />
+        {pendingLabel && (
+          <input
+            autoFocus
+            value={pendingLabel.text}
+            onChange={(e) => editLabel({ ...pendingLabel, text: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') finishLabel(true);
+              if (e.key === 'Escape') finishLabel(false);
+            }}
+            onBlur={() => finishLabel(true)}
+            placeholder="Label"
+            style={{ left: `${(pendingLabel.at.x / WIDTH) * 100}%`, top: `${(pendingLabel.at.y / HEIGHT) * 100}%` }}
+            className="absolute -translate-y-1/2 w-40 bg-white/90 border border-amber-500 rounded px-1 text-sm text-slate-900 focus:outline-none"
+          />
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 pt-3">
+        <p className="text-[11px] text-slate-500">The interviewer sees the board a few seconds after you stop drawing</p>
+        <button
+          type="button"
+          onClick={onShare}
+          disabled={disabled || !shapes.length}
+          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-semibold bg-amber-600 hover:bg-amber-500 disabled:bg-slate-700 disabled:text-slate-500 text-white transition-colors"
+        >
+          <ShareIcon className="w-3.5 h-3.5" /> Share with interviewer
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Whiteboard;
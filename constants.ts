@@ -1,29 +1,231 @@
-import { InterviewType, InterviewerPersona } from "./types";
+import {
+  InterviewType,
+  InterviewerPersona,
+  InterviewMode,
+  type AgendaStage,
+  type BankQuestion,
+  type FollowUpLevel,
+  type InterruptionTolerance,
+  type PersonaProfile,
+  type Competency,
+  type RoleDefinition,
+  type JobDescription,
+  type ParsedResume,
+  type ResumeEntry,
+  type InterviewLanguage,
+  type CodeRevision,
+  type WhiteboardSnapshot,
+  type AnswerSegment,
+  type ProsodyMetrics,
+} from "./types";
 
-export const SYSTEM_INSTRUCTION_TEMPLATE = (type: InterviewType, persona: InterviewerPersona, context: string, resumeText?: string) => `
+export const FOLLOW_UP_INSTRUCTIONS: Record<FollowUpLevel, string> = {
+  light: 'Ask at most one follow-up per question, only when an answer is clearly incomplete.',
+  moderate: 'Ask a follow-up when an answer is vague or skips the reasoning behind a decision.',
+  relentless: 'Probe every answer with follow-ups until you reach concrete specifics, trade-offs and numbers.',
+};
+
+export const INTERRUPTION_INSTRUCTIONS: Record<InterruptionTolerance, string> = {
+  patient: 'Never interrupt. Let the candidate finish even long or meandering answers, and allow long thinking pauses.',
+  balanced: 'Only interrupt when an answer has clearly gone off topic for a while.',
+  brisk: 'Politely cut in when an answer rambles or drifts off topic, and steer it back.',
+};
+
+// Silence before the Live API decides the candidate has finished speaking; undefined keeps its default
+export const INTERRUPTION_SILENCE_MS: Record<InterruptionTolerance, number | undefined> = {
+  patient: 1500,
+  balanced: undefined,
+  brisk: 500,
+};
+
+export const BUILT_IN_PERSONAS: PersonaProfile[] = [
+  {
+    id: InterviewerPersona.FRIENDLY,
+    name: 'Friendly Recruiter',
+    instructions: 'Be warm, encouraging, and helpful. Guide them if they get stuck.',
+    voiceName: 'Aoede',
+    followUpLevel: 'light',
+    interruptionTolerance: 'patient',
+    builtIn: true,
+  },
+  {
+    id: InterviewerPersona.STRICT,
+    name: 'Strict Technical Lead',
+    instructions: 'Be professional, skeptical, and direct. Challenge their assumptions. Dig deep into technical edge cases.',
+    voiceName: 'Charon',
+    followUpLevel: 'relentless',
+    interruptionTolerance: 'brisk',
+    builtIn: true,
+  },
+  {
+    id: InterviewerPersona.BEHAVIORAL,
+    name: 'Behavioral HR Specialist',
+    instructions: 'Focus purely on soft skills, conflict resolution, and the STAR method.',
+    voiceName: 'Kore',
+    followUpLevel: 'moderate',
+    interruptionTolerance: 'balanced',
+    skipStages: ['technical'],
+    builtIn: true,
+  },
+];
+
+// The original five feedback metrics, kept as the rubric for roles without their own
+export const DEFAULT_COMPETENCIES: Competency[] = [
+  { id: 'technical', name: 'Technical', description: 'Depth and accuracy of role-specific knowledge.', weight: 3 },
+  { id: 'communication', name: 'Communication', description: 'Explains ideas clearly and listens to the question asked.', weight: 3 },
+  { id: 'confidence', name: 'Confidence', description: 'Composed, decisive delivery without bluffing.', weight: 2 },
+  { id: 'clarity', name: 'Clarity', description: 'Structured, concise answers that get to the point.', weight: 2 },
+  { id: 'problemSolving', name: 'Problem Solving', description: 'Breaks problems down, weighs options and justifies choices.', weight: 3 },
+];
+
+const competency = (id: string, name: string, description: string, weight: number): Competency => ({ id, name, description, weight });
+
+const ROLE_RUBRICS: Partial<Record<InterviewType, Pick<RoleDefinition, 'competencies' | 'focusAreas' | 'codingInterview'>>> = {
+  [InterviewType.SOFTWARE_ENGINEER]: {
+    competencies: [
+      competency('coding', 'Coding', 'Writes correct, readable code and reasons about complexity.', 4),
+      competency('systemDesign', 'System Design', 'Designs scalable components and discusses trade-offs.', 3),
+      competency('debugging', 'Debugging', 'Finds root causes methodically rather than guessing.', 2),
+      competency('communication', 'Communication', 'Explains technical decisions to peers and non-engineers.', 2),
+      competency('collaboration', 'Collaboration', 'Works through code review, disagreement and shared ownership.', 2),
+    ],
+    focusAreas: ['Data structures and algorithms', 'System design', 'Testing and code quality'],
+    codingInterview: true,
+  },
+  [InterviewType.PRODUCT_MANAGER]: {
+    competencies: [
+      competency('productSense', 'Product Sense', 'Identifies user problems and shapes compelling solutions.', 4),
+      competency('prioritization', 'Prioritization', 'Makes trade-offs explicit and ties them to goals.', 3),
+      competency('analytics', 'Analytics', 'Defines success metrics and reasons from data.', 3),
+      competency('stakeholders', 'Stakeholder Management', 'Aligns engineering, design and leadership.', 2),
+      competency('communication', 'Communication', 'Tells a clear, structured story.', 2),
+    ],
+    focusAreas: ['Product design case', 'Metrics and experimentation', 'Roadmap trade-offs'],
+  },
+  [InterviewType.DATA_SCIENTIST]: {
+    competencies: [
+      competency('statistics', 'Statistics', 'Applies sound statistical reasoning and experiment design.', 4),
+      competency('modeling', 'Modeling', 'Chooses, trains and evaluates models appropriately.', 3),
+      competency('dataWrangling', 'Data Wrangling', 'Handles messy data, SQL and feature engineering.', 3),
+      competency('businessImpact', 'Business Impact', 'Connects analysis to decisions and outcomes.', 2),
+      competency('communication', 'Communication', 'Explains findings to non-technical audiences.', 2),
+    ],
+    focusAreas: ['A/B testing', 'Model evaluation', 'SQL and data pipelines'],
+    codingInterview: true,
+  },
+  [InterviewType.UX_DESIGNER]: {
+    competencies: [
+      competency('userResearch', 'User Research', 'Grounds decisions in research and user evidence.', 3),
+      competency('interactionDesign', 'Interaction Design', 'Designs intuitive flows and handles edge cases.', 4),
+      competency('visualCraft', 'Visual Craft', 'Applies hierarchy, typography and accessibility.', 2),
+      competency('critique', 'Handling Critique', 'Defends and iterates on work constructively.', 2),
+      competency('collaboration', 'Collaboration', 'Partners with product and engineering.', 2),
+    ],
+    focusAreas: ['Portfolio walkthrough', 'Design process', 'Accessibility'],
+  },
+  [InterviewType.SALES_REP]: {
+    competencies: [
+      competency('prospecting', 'Prospecting', 'Builds pipeline and qualifies leads effectively.', 3),
+      competency('discovery', 'Discovery', 'Asks questions that uncover real customer needs.', 4),
+      competency('objectionHandling', 'Objection Handling', 'Responds to pushback calmly and persuasively.', 3),
+      competency('closing', 'Closing', 'Drives deals to a clear commitment.', 3),
+      competency('resilience', 'Resilience', 'Stays motivated through rejection and targets.', 2),
+    ],
+    focusAreas: ['Mock sales call', 'Quota attainment', 'Handling rejection'],
+  },
+  [InterviewType.CUSTOMER_SUPPORT]: {
+    competencies: [
+      competency('empathy', 'Empathy', 'Acknowledges customer frustration and builds trust.', 4),
+      competency('troubleshooting', 'Troubleshooting', 'Diagnoses issues step by step.', 3),
+      competency('deEscalation', 'De-escalation', 'Calms difficult conversations.', 3),
+      competency('productKnowledge', 'Product Knowledge', 'Learns and explains products accurately.', 2),
+      competency('communication', 'Communication', 'Writes and speaks clearly and politely.', 2),
+    ],
+    focusAreas: ['Difficult customer scenario', 'Troubleshooting walkthrough', 'Handling volume'],
+  },
+  [InterviewType.NURSE]: {
+    competencies: [
+      competency('clinicalJudgment', 'Clinical Judgment', 'Assesses patients and escalates appropriately.', 4),
+      competency('patientSafety', 'Patient Safety', 'Follows protocols for medication, infection control and handoffs.', 4),
+      competency('patientCommunication', 'Patient Communication', 'Explains care with compassion to patients and families.', 3),
+      competency('teamwork', 'Teamwork', 'Coordinates with physicians and colleagues under pressure.', 2),
+      competency('composure', 'Composure', 'Stays calm and prioritizes in emergencies.', 3),
+    ],
+    focusAreas: ['Patient deterioration scenario', 'Prioritizing multiple patients', 'Difficult family conversations'],
+  },
+  [InterviewType.TEACHER]: {
+    competencies: [
+      competency('lessonPlanning', 'Lesson Planning', 'Designs lessons with clear objectives and assessment.', 3),
+      competency('classroomManagement', 'Classroom Management', 'Maintains a productive, respectful classroom.', 4),
+      competency('differentiation', 'Differentiation', 'Adapts teaching to different learners.', 3),
+      competency('parentCommunication', 'Parent Communication', 'Builds partnerships with families.', 2),
+      competency('reflection', 'Reflective Practice', 'Uses feedback and results to improve.', 2),
+    ],
+    focusAreas: ['Sample lesson', 'Behavior management scenario', 'Supporting struggling students'],
+  },
+};
+
+export const BUILT_IN_ROLES: RoleDefinition[] = Object.values(InterviewType).map((title) => ({
+  id: title,
+  title,
+  competencies: ROLE_RUBRICS[title]?.competencies ?? DEFAULT_COMPETENCIES,
+  focusAreas: ROLE_RUBRICS[title]?.focusAreas ?? [],
+  codingInterview: ROLE_RUBRICS[title]?.codingInterview,
+  builtIn: true,
+}));
+
+const sanitizePrompt = (text: string) => text.replace(/[\{\}]/g, '');
+
+const formatResumeEntries = (label: string, prefix: string, entries: ResumeEntry[]) =>
+  entries.length
+    ? `- ${label}:\n${entries
+        .map((e, i) => {
+          const line = [e.heading, e.subheading].filter(Boolean).map((t) => sanitizePrompt(t!)).join(' | ');
+          const details = e.details.map((d) => `\n    • ${sanitizePrompt(d)}`).join('');
+          return `  [${prefix}${i + 1}] ${line}${e.dates ? ` (${sanitizePrompt(e.dates)})` : ''}${details}`;
+        })
+        .join('\n')}\n`
+    : '';
+
+// Contact details are left out on purpose; the interviewer has no use for them
+const RESUME_DIGEST = (resume: ParsedResume) =>
+  `${resume.name ? `- Name: ${sanitizePrompt(resume.name)}\n` : ''}` +
+  `${resume.summary ? `- Summary: ${sanitizePrompt(resume.summary)}\n` : ''}` +
+  formatResumeEntries('Experience (most recent first)', 'E', resume.experience) +
+  formatResumeEntries('Projects', 'P', resume.projects) +
+  formatResumeEntries('Education', 'D', resume.education) +
+  `${resume.skills.length ? `- Skills: ${resume.skills.map(sanitizePrompt).join(', ')}\n` : ''}`;
+
+export const SYSTEM_INSTRUCTION_TEMPLATE = (role: RoleDefinition, persona: PersonaProfile, context: string, resume?: ParsedResume, mode: InterviewMode = InterviewMode.VOICE) => `
 You are an expert interviewer conducting a mock interview.
 
 **CONFIGURATION:**
-- **Role:** You are acting as a ${persona}.
-- **Candidate Target Role:** ${type}.
+- **Role:** You are acting as a ${sanitizePrompt(persona.name)}.
+- **Candidate Target Role:** ${sanitizePrompt(role.title)}.
 - **INTERVIEW CONTEXT:** "${context || 'Standard industry interview'}".
 
-${resumeText ? `
-**CANDIDATE RESUME SNAPSHOT:**
-"${resumeText.slice(0, 4000).replace(/[\{\}]/g, '')}" 
+**ASSESSMENT RUBRIC:**
+Gather clear evidence for each competency below; spend more questions on the higher weights.
+${role.competencies.map((c) => `- **${sanitizePrompt(c.name)}** (weight ${c.weight}): ${sanitizePrompt(c.description)}`).join('\n')}
+${role.focusAreas.length ? `- **Focus areas:** ${role.focusAreas.map(sanitizePrompt).join('; ')}.` : ''}
 
+${resume ? `
+**CANDIDATE RESUME (STRUCTURED DIGEST):**
+${RESUME_DIGEST(resume)}
 **RESUME INSTRUCTIONS:**
-1. Use the snapshot above to ask 1-2 relevant questions about their recent experience.
-2. If the text is cut off, ignore it and focus on the visible parts.
+1. Anchor 2-3 questions on specific entries above: name the role, company or project you are asking about (e.g. their most recent role and the project most relevant to this job).
+2. Probe claims: what they personally did, the trade-offs they made and the measurable results.
+3. Never read the digest back or mention the bracketed labels.
 ` : ''}
 
 **CRITICAL INSTRUCTIONS:**
 1. **ADAPT TO CONTEXT:** The user has provided specific context: "${context}". You **MUST** tailor your questions specifically to this. If they asked for a specific topic (e.g., System Design), ONLY ask about that.
-2. **VOICE-FIRST:** This is a spoken conversation. Keep responses concise (1-3 sentences). Do NOT use markdown formatting (lists, bold) in your speech. Speak naturally.
+2. **VOICE-FIRST:** This is a spoken conversation. Keep responses concise (1-3 sentences). Do NOT use markdown formatting (lists, bold) in your speech. Speak naturally.${mode === InterviewMode.TEXT ? `
+   - **TEXT MODE:** The candidate cannot speak and is TYPING their answers. Treat each typed message as their complete spoken answer. Do not comment on typos or ask them to speak up.` : ''}
 3. **PERSONA BEHAVIOR:**
-   - ${persona === InterviewerPersona.FRIENDLY ? 'Be warm, encouraging, and helpful. Guide them if they get stuck.' : ''}
-   - ${persona === InterviewerPersona.STRICT ? 'Be professional, skeptical, and direct. Challenge their assumptions. Dig deep into technical edge cases.' : ''}
-   - ${persona === InterviewerPersona.BEHAVIORAL ? 'Focus purely on soft skills, conflict resolution, and the STAR method.' : ''}
+   - ${sanitizePrompt(persona.instructions.slice(0, 2000))}
+   - **Follow-ups:** ${FOLLOW_UP_INSTRUCTIONS[persona.followUpLevel]}
+   - **Interruptions:** ${INTERRUPTION_INSTRUCTIONS[persona.interruptionTolerance]}
 
 **INTERVIEW FLOW:**
 1. Start by briefly introducing yourself and the role.
@@ -32,8 +234,542 @@ ${resumeText ? `
 4. If the answer is good, acknowledge it briefly and move to the next topic.
 `;
 
-export const FEEDBACK_GENERATION_PROMPT = `
-You are a Senior Hiring Manager. Analyze the provided interview transcript.
+// Appended to the original system instruction when a dropped session is re-opened
+export const RESUME_SESSION_INSTRUCTION = (transcript: string) => `
+**SESSION RESUMED:**
+The connection dropped in the middle of this interview and has just been restored. Conversation so far:
+"${transcript.slice(-8000).replace(/[\{\}]/g, '')}"
+
+**RESUME INSTRUCTIONS:**
+1. Do NOT introduce yourself again or restart the interview.
+2. Briefly acknowledge the interruption, then continue from your last question. If the candidate's answer was cut off, ask them to finish it.
+3. Do NOT repeat questions that were already answered.
+`;
+
+// Interviewer speech. Voices are the Live API's prebuilt voices.
+export const INTERVIEWER_VOICES = [
+  { name: 'Aoede', description: 'Breezy, warm' },
+  { name: 'Leda', description: 'Youthful, upbeat' },
+  { name: 'Puck', description: 'Lively, conversational' },
+  { name: 'Kore', description: 'Firm, composed' },
+  { name: 'Charon', description: 'Informative, measured' },
+  { name: 'Fenrir', description: 'Excitable, energetic' },
+  { name: 'Orus', description: 'Firm, deep' },
+  { name: 'Zephyr', description: 'Bright, clear' },
+];
+
+export const LIVE_MODELS = [
+  { id: 'gemini-2.5-flash-native-audio-preview-09-2025', label: 'Gemini 2.5 Flash (native audio)' },
+  { id: 'gemini-live-2.5-flash-preview', label: 'Gemini 2.5 Flash Live (half-cascade)' },
+  { id: 'gemini-2.0-flash-live-001', label: 'Gemini 2.0 Flash Live' },
+];
+export const DEFAULT_LIVE_MODEL = LIVE_MODELS[0].id;
+
+export const MIN_SPEAKING_RATE = 0.8;
+export const MAX_SPEAKING_RATE = 1.2;
+
+export const VOICE_PREVIEW_TEXT = "Hi, thanks for joining today. I'll be your interviewer. Could you start by telling me a bit about yourself?";
+
+// Interview languages. Codes are BCP-47 tags as the Live API expects them; loading messages
+// are shown while feedback is generated.
+export const INTERVIEW_LANGUAGES: InterviewLanguage[] = [
+  {
+    code: 'en-US',
+    name: 'English',
+    nativeName: 'English',
+    loadingMessages: [
+      'Processing interview audio...',
+      'Analyzing technical accuracy...',
+      'Evaluating communication clarity...',
+      'Detecting key strengths...',
+      'Calculating confidence metrics...',
+      'Compiling final score...',
+      'Almost there...',
+    ],
+  },
+  {
+    code: 'es-ES',
+    name: 'Spanish',
+    nativeName: 'Español',
+    loadingMessages: [
+      'Procesando el audio de la entrevista...',
+      'Analizando la precisión técnica...',
+      'Evaluando la claridad de la comunicación...',
+      'Detectando los puntos fuertes...',
+      'Calculando las métricas de confianza...',
+      'Preparando la puntuación final...',
+      'Ya casi está...',
+    ],
+  },
+  {
+    code: 'fr-FR',
+    name: 'French',
+    nativeName: 'Français',
+    loadingMessages: [
+      "Traitement de l'audio de l'entretien...",
+      'Analyse de la précision technique...',
+      'Évaluation de la clarté de la communication...',
+      'Identification des points forts...',
+      'Calcul des indicateurs de confiance...',
+      'Préparation du score final...',
+      'Presque terminé...',
+    ],
+  },
+  {
+    code: 'de-DE',
+    name: 'German',
+    nativeName: 'Deutsch',
+    loadingMessages: [
+      'Interview-Audio wird verarbeitet...',
+      'Fachliche Genauigkeit wird analysiert...',
+      'Klarheit der Kommunikation wird bewertet...',
+      'Stärken werden ermittelt...',
+      'Selbstsicherheit wird ausgewertet...',
+      'Gesamtpunktzahl wird berechnet...',
+      'Fast fertig...',
+    ],
+  },
+  {
+    code: 'it-IT',
+    name: 'Italian',
+    nativeName: 'Italiano',
+    loadingMessages: [
+      "Elaborazione dell'audio del colloquio...",
+      "Analisi dell'accuratezza tecnica...",
+      'Valutazione della chiarezza comunicativa...',
+      'Individuazione dei punti di forza...',
+      'Calcolo delle metriche di sicurezza...',
+      'Preparazione del punteggio finale...',
+      'Quasi fatto...',
+    ],
+  },
+  {
+    code: 'pt-BR',
+    name: 'Portuguese (Brazil)',
+    nativeName: 'Português',
+    loadingMessages: [
+      'Processando o áudio da entrevista...',
+      'Analisando a precisão técnica...',
+      'Avaliando a clareza da comunicação...',
+      'Identificando os pontos fortes...',
+      'Calculando as métricas de confiança...',
+      'Compilando a pontuação final...',
+      'Quase lá...',
+    ],
+  },
+  {
+    code: 'nl-NL',
+    name: 'Dutch',
+    nativeName: 'Nederlands',
+    loadingMessages: [
+      'Audio van het gesprek verwerken...',
+      'Technische nauwkeurigheid analyseren...',
+      'Duidelijkheid van communicatie beoordelen...',
+      'Sterke punten bepalen...',
+      'Zelfvertrouwen meten...',
+      'Eindscore berekenen...',
+      'Bijna klaar...',
+    ],
+  },
+  {
+    code: 'pl-PL',
+    name: 'Polish',
+    nativeName: 'Polski',
+    loadingMessages: [
+      'Przetwarzanie nagrania rozmowy...',
+      'Analiza poprawności merytorycznej...',
+      'Ocena jasności komunikacji...',
+      'Wykrywanie mocnych stron...',
+      'Obliczanie wskaźników pewności siebie...',
+      'Przygotowywanie wyniku końcowego...',
+      'Prawie gotowe...',
+    ],
+  },
+  {
+    code: 'tr-TR',
+    name: 'Turkish',
+    nativeName: 'Türkçe',
+    loadingMessages: [
+      'Mülakat sesi işleniyor...',
+      'Teknik doğruluk analiz ediliyor...',
+      'İletişim netliği değerlendiriliyor...',
+      'Güçlü yönler belirleniyor...',
+      'Özgüven ölçümleri hesaplanıyor...',
+      'Nihai puan hazırlanıyor...',
+      'Neredeyse bitti...',
+    ],
+  },
+  {
+    code: 'hi-IN',
+    name: 'Hindi',
+    nativeName: 'हिन्दी',
+    loadingMessages: [
+      'इंटरव्यू का ऑडियो प्रोसेस किया जा रहा है...',
+      'तकनीकी सटीकता का विश्लेषण हो रहा है...',
+      'संवाद की स्पष्टता का मूल्यांकन हो रहा है...',
+      'मुख्य खूबियाँ पहचानी जा रही हैं...',
+      'आत्मविश्वास के मानक गिने जा रहे हैं...',
+      'अंतिम स्कोर तैयार हो रहा है...',
+      'बस थोड़ी देर और...',
+    ],
+  },
+  {
+    code: 'ja-JP',
+    name: 'Japanese',
+    nativeName: '日本語',
+    loadingMessages: [
+      '面接の音声を処理しています...',
+      '技術的な正確さを分析しています...',
+      '伝え方の明確さを評価しています...',
+      '強みを抽出しています...',
+      '自信の指標を算出しています...',
+      '最終スコアをまとめています...',
+      'もう少しで完了します...',
+    ],
+  },
+  {
+    code: 'ko-KR',
+    name: 'Korean',
+    nativeName: '한국어',
+    loadingMessages: [
+      '면접 음성을 처리하는 중...',
+      '기술적 정확성을 분석하는 중...',
+      '의사소통 명확성을 평가하는 중...',
+      '핵심 강점을 찾는 중...',
+      '자신감 지표를 계산하는 중...',
+      '최종 점수를 정리하는 중...',
+      '거의 다 됐습니다...',
+    ],
+  },
+  {
+    code: 'cmn-CN',
+    name: 'Chinese (Mandarin)',
+    nativeName: '中文',
+    loadingMessages: [
+      '正在处理面试音频...',
+      '正在分析技术准确性...',
+      '正在评估表达清晰度...',
+      '正在识别主要优势...',
+      '正在计算自信度指标...',
+      '正在汇总最终得分...',
+      '马上就好...',
+    ],
+  },
+];
+export const DEFAULT_LANGUAGE = INTERVIEW_LANGUAGES[0].code;
+
+// Time boxing (0 = untimed)
+export const INTERVIEW_DURATIONS = [0, 15, 30, 45];
+export const WRAP_UP_LEAD_MINUTES = [2, 5, 10];
+
+// Sent mid-session when the time box is nearly used up
+export const WRAP_UP_INSTRUCTION = (minutesLeft: number) => `
+**TIME CHECK:** About ${minutesLeft} minute${minutesLeft === 1 ? '' : 's'} remain${minutesLeft === 1 ? 's' : ''} in this interview.
+1. Let the candidate finish their current answer, then do NOT start any new topics.
+2. Invite the candidate to ask you questions about the role, team or company, and answer them briefly.
+3. When time is nearly up, thank the candidate and close the interview politely.
+`;
+
+// Default agenda; buildAgenda() adapts it to the persona and time box
+export const DEFAULT_AGENDA: AgendaStage[] = [
+  {
+    id: 'intro',
+    title: 'Introduction',
+    goal: 'Introduce yourself and the role, then ask the candidate for a short self-introduction.',
+    targetMinutes: 3,
+    questionCount: 1,
+  },
+  {
+    id: 'resume',
+    title: 'Resume Deep-Dive',
+    goal: 'Dig into specific projects and decisions from their resume or recent experience. Ask what they personally did and why.',
+    targetMinutes: 7,
+    questionCount: 2,
+  },
+  {
+    id: 'technical',
+    title: 'Technical',
+    goal: 'Assess role-specific knowledge and problem solving with progressively harder questions.',
+    targetMinutes: 12,
+    questionCount: 3,
+  },
+  {
+    id: 'behavioral',
+    title: 'Behavioral',
+    goal: 'Ask about teamwork, conflict, ownership and failure. Expect STAR-structured answers and probe for specifics.',
+    targetMinutes: 8,
+    questionCount: 2,
+  },
+  {
+    id: 'questions',
+    title: 'Candidate Questions',
+    goal: 'Invite the candidate to ask questions about the role and team, answer briefly, then thank them and close the interview.',
+    targetMinutes: 5,
+    questionCount: 1,
+  },
+];
+
+export const AGENDA_INSTRUCTION = (agenda: AgendaStage[]) => `
+**INTERVIEW AGENDA:**
+${agenda.map((stage, i) => `${i + 1}. **${stage.title}** (~${stage.targetMinutes} min, about ${stage.questionCount} question${stage.questionCount === 1 ? '' : 's'}): ${stage.goal}`).join('\n')}
+
+**AGENDA RULES:**
+1. Start with stage 1 and stay in the current stage until you receive a **STAGE CHANGE** note.
+2. When a stage changes, transition naturally (e.g. "Let's switch gears..."). Never read out stage names or numbers.
+`;
+
+// Sent when the app moves the interview to another stage, and on reconnect
+export const STAGE_CHANGE_INSTRUCTION = (stage: AgendaStage, index: number, total: number) => `
+**STAGE CHANGE:** The interview is now in stage ${index + 1} of ${total}: ${stage.title}.
+${stage.goal} Aim for about ${stage.questionCount} question${stage.questionCount === 1 ? '' : 's'}.
+`;
+
+// Marks stage boundaries in the transcript sent for analysis
+export const STAGE_TRANSCRIPT_MARKER = (stage: AgendaStage) => `--- STAGE ${stage.id}: ${stage.title} ---`;
+
+export const STAGE_FEEDBACK_PROMPT = (stages: AgendaStage[]) => `
+**STAGE BREAKDOWN:**
+The transcript is split into stages by "--- STAGE <id>: <title> ---" lines. Add a "stages" array to the JSON with one entry per stage below, scoring only what happened inside that stage:
+"stages": [{ "id": "stage id", "score": number (0-10), "comment": "One sentence on how that stage went." }]
+Stages: ${stages.map((s) => `${s.id} (${s.title})`).join(', ')}
+`;
+
+const formatBankQuestion = (q: BankQuestion) =>
+  `- [${q.id}]${q.topic ? ` (${q.topic}${q.difficulty ? `, ${q.difficulty}` : ''})` : q.difficulty ? ` (${q.difficulty})` : ''} ${q.text.replace(/[\{\}]/g, '')}`;
+
+export const QUESTION_BANK_INSTRUCTION = (questions: BankQuestion[]) => `
+**QUESTION BANK (MANDATORY):**
+The candidate's team supplied these questions. Your main questions MUST come from this list; do not invent new main questions while unused ones fit the current stage.
+${questions.map(formatBankQuestion).join('\n')}
+
+**QUESTION BANK RULES:**
+1. Ask each bank question close to how it is written. Short follow-ups of your own are fine.
+2. Use each question in the agenda stage it fits best, and never ask the same one twice.
+3. Never mention the bank or the question ids to the candidate.
+`;
+
+export const BANK_FEEDBACK_PROMPT = (questions: BankQuestion[]) => `
+**QUESTION BANK COVERAGE:**
+The interviewer was given the questions below. Add a "bankQuestions" array to the JSON with one entry per question:
+"bankQuestions": [{ "id": "Q1", "asked": boolean, "answerSummary": "One sentence on how the candidate answered (empty if not asked).", "score": number (0-10, 0 if not asked) }]
+${questions.map(formatBankQuestion).join('\n')}
+`;
+
+const formatRequirement = (r: JobDescription['requirements'][number]) => `- [${r.id}] (${r.kind}) ${sanitizePrompt(r.text)}`;
+
+export const JOB_DESCRIPTION_INSTRUCTION = (jd: JobDescription) => `
+**JOB DESCRIPTION:**
+The candidate is applying for a specific job${jd.title ? ` ("${sanitizePrompt(jd.title)}")` : ''}. Its requirements are listed below.
+${jd.requirements.map(formatRequirement).join('\n')}
+
+**JOB DESCRIPTION RULES:**
+1. Steer your questions so the candidate has to show evidence for the skill and responsibility items, most important first.
+2. Ask for concrete past examples that match the listed responsibilities.
+3. Calibrate depth to the seniority items: expect scope, ownership and judgment to match the level.
+4. Never read the list aloud or mention the ids.
+`;
+
+export const JOB_FIT_FEEDBACK_PROMPT = (jd: JobDescription) => `
+**JOB FIT:**
+The candidate applied for a job with the requirements below. Add a "jobFit" array to the JSON with one entry per requirement:
+"jobFit": [{ "id": "R1", "status": "strong" | "partial" | "gap" | "untested", "evidence": "Short quote or paraphrase from the transcript, or what was missing." }]
+Use "untested" only when the interview never touched the requirement.
+${jd.requirements.map(formatRequirement).join('\n')}
+`;
+
+export const LANGUAGE_INSTRUCTION = (language: InterviewLanguage, nativeLanguage?: InterviewLanguage) => `
+**INTERVIEW LANGUAGE:**
+1. Conduct the entire interview in ${language.name}, including your introduction and closing. Keep this up even though these instructions are in English.
+2. The resume and job description may be written in another language. Ask about them in ${language.name} and keep names of companies, products and technologies as written.
+${nativeLanguage ? `3. **MIXED MODE:** The candidate is practicing ${language.name}; their native language is ${nativeLanguage.name}. If they get stuck and switch to ${nativeLanguage.name}, understand them and carry on in ${language.name}. You may briefly restate the ${language.name} phrase they were looking for, then continue.
+4. Use clear, moderately paced ${language.name} and avoid idioms, but do not lower the bar on the substance of their answers.
+` : ''}`;
+
+export const FEEDBACK_LANGUAGE_PROMPT = (language: InterviewLanguage, nativeLanguage?: InterviewLanguage) => `
+**FEEDBACK LANGUAGE:**
+The interview was held in ${language.name}. Write every free-text value (summary, strengths, improvements, comments, evidence) in ${language.name}. Keep JSON keys, ids and enum values in English.
+${nativeLanguage ? `
+**LANGUAGE COACHING:**
+The candidate is practicing ${language.name} (native language: ${nativeLanguage.name}). Judge the content of their answers as usual, and add a "languageFeedback" object to the JSON about their ${language.name} itself:
+"languageFeedback": {
+  "fluency": number (0-10),
+  "grammar": number (0-10),
+  "vocabulary": number (0-10),
+  "nativeLanguageSwitches": number (times they switched to ${nativeLanguage.name}),
+  "corrections": [{ "original": "What they said", "improved": "More natural ${language.name}", "note": "Short explanation in ${nativeLanguage.name}" }] (up to 5, the most useful),
+  "tips": ["3 concrete tips in ${language.name}, each followed by a ${nativeLanguage.name} translation in parentheses"]
+}
+` : ''}`;
+
+// Live coding editor
+export const CODING_LANGUAGES = [
+  { id: 'python', label: 'Python' },
+  { id: 'javascript', label: 'JavaScript' },
+  { id: 'typescript', label: 'TypeScript' },
+  { id: 'java', label: 'Java' },
+  { id: 'cpp', label: 'C++' },
+  { id: 'go', label: 'Go' },
+  { id: 'sql', label: 'SQL' },
+  { id: 'r', label: 'R' },
+];
+export const DEFAULT_CODING_LANGUAGE = CODING_LANGUAGES[0].id;
+
+// Pause in typing before the editor contents are shared with the interviewer
+export const CODE_SNAPSHOT_DEBOUNCE_MS = 5000;
+// Longest code passed to the model in one snapshot
+export const MAX_CODE_SNAPSHOT_CHARS = 6000;
+
+const codingLanguageLabel = (id: string) => CODING_LANGUAGES.find((l) => l.id === id)?.label ?? id;
+
+const codeBlock = (revision: CodeRevision) =>
+  `\`\`\`${revision.language}\n${revision.code.slice(0, MAX_CODE_SNAPSHOT_CHARS)}\n\`\`\``;
+
+export const CODING_INSTRUCTION = (language: string) => `
+**LIVE CODING:**
+The candidate has a shared code editor (starting language: ${codingLanguageLabel(language)}; they may switch).
+1. During the technical part, give at least one concrete coding problem sized for 10-15 minutes and ask them to solve it in the editor while talking through their approach.
+2. You will receive editor snapshots. Autosaved snapshots are for your awareness only: do not interrupt the candidate because of them.
+3. When the candidate SUBMITS code, review it out loud: correctness, edge cases, complexity and readability, then ask a follow-up.
+4. Never read code aloud character by character; refer to functions, variables or line numbers instead.
+`;
+
+export const CODE_SNAPSHOT_CONTEXT = (revision: CodeRevision) =>
+  `${revision.submitted ? 'The candidate SUBMITTED their code for review' : 'Autosaved editor snapshot (do not comment unless asked)'} - revision ${revision.revision}, ${codingLanguageLabel(revision.language)}:
+${codeBlock(revision)}`;
+
+// Written into the transcript when the candidate submits, so the code sits in the conversation timeline
+export const CODE_TRANSCRIPT_MARKER = (revision: CodeRevision) =>
+  `--- CODE SUBMITTED: revision ${revision.revision} (${codingLanguageLabel(revision.language)}) ---`;
+
+// Appended to the transcript for the feedback model: every revision in brief, then the final code in full
+export const CODE_HISTORY_TRANSCRIPT = (revisions: CodeRevision[]) => {
+  const final = revisions[revisions.length - 1];
+  const history = revisions
+    .map(
+      (r) =>
+        `- Revision ${r.revision} at ${Math.floor(r.atMs / 60000)}m ${Math.floor((r.atMs % 60000) / 1000)}s, ${codingLanguageLabel(r.language)}, ${r.code.split('\n').length} lines${r.submitted ? ', submitted' : ''}`,
+    )
+    .join('\n');
+  const submitted = revisions
+    .filter((r) => r.submitted && r !== final)
+    .map((r) => `Submitted revision ${r.revision}:\n${codeBlock(r)}`)
+    .join('\n\n');
+
+  return `
+CODE EDITOR HISTORY:
+${history}
+${submitted ? `\n${submitted}\n` : ''}
+FINAL CODE (revision ${final.revision}):
+${codeBlock(final)}
+`;
+};
+
+export const CODE_FEEDBACK_PROMPT = `
+**CODE QUALITY:**
+The candidate wrote code in a shared editor; its revision history and final version follow the transcript. Judge the final code against the problem the interviewer posed, and add a "codeQuality" object to the JSON:
+"codeQuality": { "score": number (0-10), "correctness": number (0-10), "readability": number (0-10), "efficiency": number (0-10), "comment": "Two sentences on the code itself and how it evolved across revisions." }
+Let the code quality count towards the technical competencies and the overall score.
+`;
+
+export const ANSWER_FEEDBACK_PROMPT = `
+**PER-ANSWER SCORING:**
+The transcript is split into numbered question/answer pairs, listed after it. Score every pair and add an "answers" array to the JSON:
+"answers": [{ "id": number (the pair number), "score": number (0-10), "relevance": number (0-10), "depth": number (0-10), "clarity": number (0-10), "critique": "One sentence on this answer.", "evidence": [{ "quote": "Words copied from the answer", "kind": "strength" | "weakness" }] }]
+Evidence quotes must be copied word for word from that pair's answer (3-15 words, at most 2 per answer). Never paraphrase, merge or correct them.
+`;
+
+// Appended to the transcript for the feedback model, numbered as in ANSWER_FEEDBACK_PROMPT
+export const ANSWER_PAIRS_TRANSCRIPT = (segments: AnswerSegment[]) => `
+QUESTION/ANSWER PAIRS:
+${segments.map((s) => `Q${s.id}: ${s.question}\nA${s.id}: ${s.answer}`).join('\n\n')}
+`;
+
+// Quiet time after the last whiteboard edit before the board is shared automatically
+export const WHITEBOARD_SNAPSHOT_DEBOUNCE_MS = 4000;
+
+export const WHITEBOARD_INSTRUCTION = `
+**WHITEBOARD:**
+The candidate has a shared whiteboard for boxes, arrows, labels and freehand sketches.
+1. For system design or architecture questions, invite them to sketch the design on the whiteboard while they explain it.
+2. You will receive images of the board. Autosaved snapshots are for your awareness only: do not interrupt the candidate because of them.
+3. When the candidate SHARES the board, discuss the diagram: name the components you see, question the data flow, bottlenecks and failure modes, and ask a follow-up.
+4. If a label is unreadable, ask what it says rather than guessing.
+`;
+
+export const WHITEBOARD_SNAPSHOT_CAPTION = (snapshot: WhiteboardSnapshot) =>
+  snapshot.shared
+    ? `The candidate SHARED their whiteboard for discussion - version ${snapshot.revision}.`
+    : `Autosaved whiteboard snapshot (do not comment unless asked) - version ${snapshot.revision}.`;
+
+// Written into the transcript when the candidate shares, so the diagram sits in the conversation timeline
+export const WHITEBOARD_TRANSCRIPT_MARKER = (snapshot: WhiteboardSnapshot) =>
+  `--- WHITEBOARD SHARED: version ${snapshot.revision} ---`;
+
+export const WHITEBOARD_FEEDBACK_PROMPT = (snapshots: WhiteboardSnapshot[]) => `
+**WHITEBOARD DIAGRAM:**
+The candidate drew on a shared whiteboard (${snapshots.length} version${snapshots.length === 1 ? '' : 's'}, ${snapshots.filter((s) => s.shared).length} shared for discussion). The final diagram is attached as an image. Judge it together with what they said about it, and add a "whiteboard" object to the JSON:
+"whiteboard": { "score": number (0-10), "comment": "Two sentences on the diagram: components, data flow, clarity and what is missing." }
+Let the diagram count towards the technical and communication competencies and the overall score.
+`;
+
+// Webcam frames sent to the interviewer. Each frame costs tokens, so rates stay well below video.
+export const CAMERA_FRAME_RATES = [
+  { value: 0.2, label: '1 frame / 5s' },
+  { value: 0.5, label: '1 frame / 2s' },
+  { value: 1, label: '1 frame / s' },
+];
+
+export const CAMERA_FRAME_WIDTHS = [
+  { value: 320, label: 'Low (320px)' },
+  { value: 480, label: 'Medium (480px)' },
+  { value: 640, label: 'High (640px)' },
+];
+
+export const DEFAULT_CAMERA_FRAME_RATE = 0.5;
+export const DEFAULT_CAMERA_FRAME_WIDTH = 320;
+
+export const CAMERA_INSTRUCTION = `
+**CAMERA:**
+You receive a low-rate video feed of the candidate from their webcam.
+1. Use it the way an interviewer on a video call would: notice presence, engagement and eye contact, and whether they seem to be reading answers from notes or another screen.
+2. Do not narrate what you see. Mention it only when it matters, briefly and constructively (e.g. "Try to look at the camera when you make your key point").
+3. If they appear to be reading a prepared answer, ask them to explain it in their own words.
+4. Never comment on appearance, clothing, surroundings or anything unrelated to interview performance.
+`;
+
+export const CONFIDENCE_FEEDBACK_PROMPT = (prosody: ProsodyMetrics) => `
+**VOCAL CONFIDENCE:**
+The candidate's microphone was measured over ${prosody.answers.length} answer${prosody.answers.length === 1 ? '' : 's'}: ${prosody.monotoneAnswers} sounded monotone, ${prosody.trailingOffAnswers} trailed off at the end and ${prosody.uptalkAnswers} rose at phrase ends (uptalk).${prosody.clipping || prosody.tooQuiet ? ' The input level was poor, so weigh these signals lightly.' : ''} Judge how confident the candidate sounded from these signals and the transcript, and add a "vocalConfidence" object to the JSON:
+"vocalConfidence": { "score": number (0-10), "comment": "One sentence on how confident they sounded and why." }
+`;
+
+// Filler words and phrases counted in English answers. "like" is skipped where it is a verb (see speechAnalytics).
+export const FILLER_PHRASES = ['um', 'uh', 'erm', 'er', 'ah', 'like', 'you know', 'i mean', 'sort of', 'kind of', 'basically', 'literally'];
+
+// Gaps with neither side speaking at least this long are reported as long silences
+export const LONG_SILENCE_MS = 5000;
+
+// Feedback replies that fail validation are retried with the errors, up to this many requests in total
+export const MAX_FEEDBACK_ATTEMPTS = 3;
+
+export const FEEDBACK_REPAIR_PROMPT = (errors: { path: string; message: string }[]) => `
+**YOUR PREVIOUS ANSWER WAS REJECTED:**
+It did not match the required JSON structure:
+${errors.slice(0, 20).map((e) => `- ${e.path || 'response'}: ${e.message}`).join('\n')}
+Return the complete JSON object again with these problems fixed. Output only the JSON.
+`;
+
+// Live connection retry policy (exponential backoff)
+export const MAX_RECONNECT_ATTEMPTS = 5;
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 15000;
+
+export const FEEDBACK_GENERATION_PROMPT = (role: RoleDefinition) => `
+You are a Senior Hiring Manager hiring for a ${sanitizePrompt(role.title)}. Analyze the provided interview transcript.
+
+**RUBRIC:**
+Score each competency from 0 to 10 on the evidence in the transcript. The overall score should reflect the weights.
+${role.competencies.map((c) => `- ${c.id}: ${sanitizePrompt(c.name)} (weight ${c.weight}). ${sanitizePrompt(c.description)}`).join('\n')}
 
 **CRITICAL CONSTRAINTS (TO PREVENT JSON ERRORS):**
 1. **BE CONCISE:** Do NOT repeat the transcript. Keep the summary under 60 words.
@@ -47,14 +783,11 @@ You are a Senior Hiring Manager. Analyze the provided interview transcript.
   "summary": "Brief summary of performance.",
   "strengths": ["Strength 1", "Strength 2", "Strength 3"],
   "improvements": ["Improvement 1", "Improvement 2", "Improvement 3"],
-  "metrics": {
-    "technical": number (0-10),
-    "communication": number (0-10),
-    "confidence": number (0-10),
-    "clarity": number (0-10),
-    "problemSolving": number (0-10)
+  "competencies": {
+${role.competencies.map((c) => `    "${c.id}": number (0-10)`).join(',\n')}
   }
 }
+Use exactly these competency keys: ${role.competencies.map((c) => c.id).join(', ')}
 `;
 
 export const CREDITS_INFO = {
@@ -0,0 +1,72 @@
+import type { AnswerEvidence, AnswerFeedback, AnswerSegment, ChatMessage } from '../types';
+
+const toScore = (value: unknown) => (typeof value === 'number' ? Math.max(0, Math.min(10, value)) : 0);
+
+// Case, punctuation and spacing differ between the model's quote and the transcript
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Pairs each interviewer message with the candidate reply that follows it. Follow-ups are
+ * their own pairs; candidate turns before the first question (small talk) are skipped.
+ */
+export const segmentAnswers = (messages: ChatMessage[]): AnswerSegment[] => {
+  const segments: AnswerSegment[] = [];
+  let questionIndex: number | null = null;
+  let current: AnswerSegment | null = null;
+
+  messages.forEach((message, index) => {
+    if (!message.text.trim()) return;
+    if (message.role === 'model') {
+      questionIndex = index;
+      current = null;
+      return;
+    }
+    if (current) {
+      current.answerIndices.push(index);
+      current.answer += ` ${message.text.trim()}`;
+    } else if (questionIndex !== null) {
+      current = {
+        id: segments.length + 1,
+        questionIndex,
+        answerIndices: [index],
+        question: messages[questionIndex].text.trim(),
+        answer: message.text.trim(),
+      };
+      segments.push(current);
+    }
+  });
+
+  return segments;
+};
+
+// Keeps only quotes that really occur in the answer, and records which message they came from
+const toEvidence = (segment: AnswerSegment, messages: ChatMessage[], reported: unknown): AnswerEvidence[] => {
+  if (!Array.isArray(reported)) return [];
+  return reported.flatMap((item): AnswerEvidence[] => {
+    if (!item || typeof item !== 'object' || typeof item.quote !== 'string' || !normalize(item.quote)) return [];
+    const quote = normalize(item.quote);
+    // Padded so a quote only matches whole words
+    const messageIndex = segment.answerIndices.find((i) => ` ${normalize(messages[i].text)} `.includes(` ${quote} `));
+    if (messageIndex === undefined) return [];
+    return [{ quote: item.quote.trim(), messageIndex, kind: item.kind === 'weakness' ? 'weakness' : 'strength' }];
+  });
+};
+
+// Merges the model's per-answer scores into the segments; validation guarantees an entry per answer
+export const toAnswerFeedback = (segments: AnswerSegment[], messages: ChatMessage[], scored: unknown): AnswerFeedback[] => {
+  const entries = Array.isArray(scored) ? scored : [];
+  return segments.map((segment) => {
+    const entry = entries.find((e) => e && typeof e === 'object' && e.id === segment.id);
+    return {
+      id: segment.id,
+      question: segment.question,
+      questionIndex: segment.questionIndex,
+      score: toScore(entry?.score),
+      relevance: toScore(entry?.relevance),
+      depth: toScore(entry?.depth),
+      clarity: toScore(entry?.clarity),
+      critique: typeof entry?.critique === 'string' ? entry.critique : '',
+      evidence: toEvidence(segment, messages, entry?.evidence),
+    };
+  });
+};
@@ -0,0 +1,82 @@
+// Microphone capture on an AudioWorklet (see pcmCaptureWorklet.js). Replaces the
+// deprecated ScriptProcessorNode so resampling and framing stay off the main thread.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+export const CAPTURE_FRAME_SIZE = 1600; // 100ms @ 16kHz
+
+const WORKLET_URL = new URL('./pcmCaptureWorklet.js', import.meta.url);
+const PROCESSOR_NAME = 'pcm-capture';
+
+export interface MicrophoneCaptureOptions {
+  targetSampleRate?: number;
+  frameSize?: number;
+  onFrame: (frame: Float32Array) => void;
+}
+
+export interface MicrophoneCapture {
+  node: AudioWorkletNode;
+  sampleRate: number;
+  stop: () => void;
+}
+
+// addModule must only run once per context
+const loadedContexts = new WeakMap<BaseAudioContext, Promise<void>>();
+
+const ensureWorklet = (ctx: BaseAudioContext): Promise<void> => {
+  if (!ctx.audioWorklet) {
+    return Promise.reject(new Error('AudioWorklet is not supported in this browser.'));
+  }
+
+  let loading = loadedContexts.get(ctx);
+  if (!loading) {
+    loading = ctx.audioWorklet.addModule(WORKLET_URL.href);
+    loading.catch(() => loadedContexts.delete(ctx));
+    loadedContexts.set(ctx, loading);
+  }
+  return loading;
+};
+
+/**
+ * Connects `source` to a capture worklet that emits mono Float32 frames of exactly
+ * `frameSize` samples at `targetSampleRate`, whatever rate the context runs at.
+ * Frames are ready to hand to createPcmBlob.
+ */
+export const startMicrophoneCapture = async (
+  ctx: AudioContext,
+  source: AudioNode,
+  { targetSampleRate = CAPTURE_SAMPLE_RATE, frameSize = CAPTURE_FRAME_SIZE, onFrame }: MicrophoneCaptureOptions,
+): Promise<MicrophoneCapture> => {
+  await ensureWorklet(ctx);
+
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions: { targetSampleRate, frameSize },
+  });
+
+  node.port.onmessage = (event: MessageEvent<Float32Array>) => {
+    onFrame(event.data);
+  };
+
+  source.connect(node);
+  // The node only outputs silence, but it has to be pulled by the graph to run
+  node.connect(ctx.destination);
+
+  return {
+    node,
+    sampleRate: targetSampleRate,
+    stop: () => {
+      node.port.onmessage = null;
+      try {
+        source.disconnect(node);
+      } catch (e) {}
+      try {
+        node.disconnect();
+      } catch (e) {}
+      node.port.close();
+    },
+  };
+};
@@ -1,4 +1,4 @@
-import { Blob } from '@google/genai';
+import type { AudioChunk } from './liveTransport';
 
 export function base64ToUint8Array(base64: string): Uint8Array {
   const binaryString = atob(base64);
@@ -39,7 +39,7 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function createPcmBlob(data: Float32Array, sampleRate: number = 16000): Blob {
+export function createPcmBlob(data: Float32Array, sampleRate: number = 16000): AudioChunk {
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
@@ -51,4 +51,34 @@ export function createPcmBlob(data: Float32Array, sampleRate: number = 16000): B
     data: arrayBufferToBase64(int16.buffer),
     mimeType: `audio/pcm;rate=${sampleRate}`,
   };
-}
\ No newline at end of file
+}
+
+// Wraps 16-bit mono PCM in a RIFF/WAVE container
+export function encodeWav(samples: Int16Array, sampleRate: number): Uint8Array {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM header size
+  view.setUint16(20, 1, true); // Format: PCM
+  view.setUint16(22, 1, true); // Channels: mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  new Int16Array(buffer, 44).set(samples);
+  return new Uint8Array(buffer);
+}
@@ -0,0 +1,25 @@
+import type { ImageAttachment } from './liveTransport';
+import { toImageAttachment } from './whiteboard';
+
+const JPEG_QUALITY = 0.6;
+
+// Grabs downscaled JPEG stills from a playing <video>, reusing one canvas for every frame
+export class CameraFrameSampler {
+  private canvas = document.createElement('canvas');
+
+  constructor(private width: number) {}
+
+  // Returns null until the video has a frame to draw
+  capture(video: HTMLVideoElement): ImageAttachment | null {
+    if (video.readyState < 2 || !video.videoWidth) return null;
+
+    const scale = Math.min(1, this.width / video.videoWidth);
+    this.canvas.width = Math.round(video.videoWidth * scale);
+    this.canvas.height = Math.round(video.videoHeight * scale);
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, this.canvas.width, this.canvas.height);
+
+    return toImageAttachment(this.canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  }
+}
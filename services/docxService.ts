@@ -0,0 +1,86 @@
+// DOCX files are zip archives; the body text lives in word/document.xml
+const DOCUMENT_PART = 'word/document.xml';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Minimal zip reader: finds one entry through the central directory and inflates it
+const readZipEntry = async (buffer: ArrayBuffer, name: string): Promise<Uint8Array | null> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // The end-of-central-directory record sits at the end, before an optional comment
+  let eocd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65557); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid DOCX file.');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === CENTRAL_ENTRY_SIGNATURE; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const entryName = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    if (entryName === name) {
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) throw new Error('Corrupted DOCX file.');
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRaw(data);
+      throw new Error('Unsupported DOCX compression.');
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+/**
+ * Extracts the body text of a Word document, one line per paragraph. No dependency:
+ * the archive is read by hand and inflated with the browser's DecompressionStream.
+ */
+export const extractTextFromDocx = async (file: File): Promise<string> => {
+  try {
+    const xml = await readZipEntry(await file.arrayBuffer(), DOCUMENT_PART);
+    if (!xml) throw new Error('This file has no Word document body.');
+
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+    const paragraphs = Array.from(doc.getElementsByTagName('w:p')).map((paragraph) => {
+      let text = '';
+      for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+        if (node.tagName === 'w:t') text += node.textContent ?? '';
+        else if (node.tagName === 'w:tab') text += ' ';
+        else if (node.tagName === 'w:br') text += '\n';
+      }
+      // Word list items carry numbering properties instead of a bullet character
+      const isListItem = paragraph.getElementsByTagName('w:numPr').length > 0;
+      return isListItem && text.trim() ? `• ${text}` : text;
+    });
+
+    return paragraphs
+      .join('\n')
+      .split('\n')
+      .map((line) => line.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+  } catch (error) {
+    console.error("DOCX Extraction Error:", error);
+    throw error instanceof Error ? error : new Error('Failed to read the DOCX file.');
+  }
+};
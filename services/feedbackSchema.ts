@@ -0,0 +1,236 @@
+import { FEEDBACK_REPAIR_PROMPT, MAX_FEEDBACK_ATTEMPTS } from '../constants';
+import type { FeedbackProvider, FeedbackRequestOptions } from './providers';
+
+// The subset of JSON Schema that both structured-output APIs and validateFeedback understand
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface FieldError {
+  path: string; // e.g. "competencies.technical" or "answers[2].score"; empty for the whole response
+  message: string;
+}
+
+// Which optional sections the prompt asked for, and the ids their entries must use
+export interface FeedbackSchemaOptions {
+  competencyIds: string[];
+  stageIds?: string[];
+  bankQuestionIds?: string[];
+  requirementIds?: string[];
+  languageCoaching?: boolean;
+  code?: boolean;
+  whiteboard?: boolean;
+  vocalConfidence?: boolean;
+  answerCount?: number;
+}
+
+export interface ValidatedFeedback {
+  data: Record<string, unknown>; // Valid top-level fields only
+  invalidFields: string[]; // Top-level fields that were missing or malformed on every attempt
+  errors: FieldError[];
+  attempts: number;
+}
+
+const score = (maximum = 10): JsonSchema => ({ type: 'number', minimum: 0, maximum });
+const text: JsonSchema = { type: 'string' };
+const textList: JsonSchema = { type: 'array', items: text };
+
+const object = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+});
+
+const list = (properties: Record<string, JsonSchema>): JsonSchema => ({ type: 'array', items: object(properties) });
+
+const ids = (values: string[]): JsonSchema => ({ type: 'string', enum: values });
+
+/** Response schema for one session: the base report plus every section its prompt asked for. */
+export const buildFeedbackSchema = (options: FeedbackSchemaOptions): JsonSchema => {
+  const properties: Record<string, JsonSchema> = {
+    score: score(100),
+    summary: text,
+    strengths: textList,
+    improvements: textList,
+    competencies: object(Object.fromEntries(options.competencyIds.map((id) => [id, score()]))),
+  };
+
+  if (options.stageIds?.length) {
+    properties.stages = list({ id: ids(options.stageIds), score: score(), comment: text });
+  }
+  if (options.bankQuestionIds?.length) {
+    properties.bankQuestions = list({ id: ids(options.bankQuestionIds), asked: { type: 'boolean' }, answerSummary: text, score: score() });
+  }
+  if (options.requirementIds?.length) {
+    properties.jobFit = list({ id: ids(options.requirementIds), status: ids(['strong', 'partial', 'gap', 'untested']), evidence: text });
+  }
+  if (options.languageCoaching) {
+    properties.languageFeedback = object({
+      fluency: score(),
+      grammar: score(),
+      vocabulary: score(),
+      nativeLanguageSwitches: { type: 'integer', minimum: 0 },
+      corrections: list({ original: text, improved: text, note: text }),
+      tips: textList,
+    });
+  }
+  if (options.code) {
+    properties.codeQuality = object({ score: score(), correctness: score(), readability: score(), efficiency: score(), comment: text });
+  }
+  if (options.whiteboard) {
+    properties.whiteboard = object({ score: score(), comment: text });
+  }
+  if (options.vocalConfidence) {
+    properties.vocalConfidence = object({ score: score(), comment: text });
+  }
+  if (options.answerCount) {
+    properties.answers = list({
+      id: { type: 'integer', minimum: 1, maximum: options.answerCount },
+      score: score(),
+      relevance: score(),
+      depth: score(),
+      clarity: score(),
+      critique: text,
+      evidence: list({ quote: text, kind: ids(['strength', 'weakness']) }),
+    });
+  }
+
+  return object(properties);
+};
+
+const typeOf = (value: unknown) => (value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value);
+
+// A list keyed by id needs an entry for every id it allows: each enum value, or each whole number in the range
+const missingIds = (items: unknown[], id: JsonSchema | undefined): (string | number)[] => {
+  if (!id) return [];
+  const expected: (string | number)[] =
+    id.enum ??
+    (id.type === 'integer' && id.minimum !== undefined && id.maximum !== undefined
+      ? Array.from({ length: id.maximum - id.minimum + 1 }, (_, i) => id.minimum! + i)
+      : []);
+  const present = new Set(items.map((item) => (item && typeof item === 'object' ? (item as Record<string, unknown>).id : undefined)));
+  return expected.filter((value) => !present.has(value));
+};
+
+/**
+ * Checks a value against the schema and returns one error per offending field. Extra fields are
+ * allowed; missing entries in a list keyed by id are errors, so an empty list never passes as scored.
+ */
+export const validateFeedback = (value: unknown, schema: JsonSchema, path = ''): FieldError[] => {
+  const fail = (message: string): FieldError[] => [{ path, message }];
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeOf(value) !== 'object') return fail(`expected an object, got ${typeOf(value)}`);
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      return Object.entries(properties).flatMap(([key, property]) => {
+        const childPath = path ? `${path}.${key}` : key;
+        if (record[key] === undefined) {
+          return schema.required?.includes(key) ? [{ path: childPath, message: 'is missing' }] : [];
+        }
+        return validateFeedback(record[key], property, childPath);
+      });
+    }
+    case 'array': {
+      if (!Array.isArray(value)) return fail(`expected an array, got ${typeOf(value)}`);
+      const itemErrors = schema.items ? value.flatMap((item, i) => validateFeedback(item, schema.items!, `${path}[${i}]`)) : [];
+      const missing = missingIds(value, schema.items?.properties?.id).map((id) => ({
+        path,
+        message: `has no entry with id ${JSON.stringify(id)}`,
+      }));
+      return [...itemErrors, ...missing];
+    }
+    case 'string':
+      if (typeof value !== 'string') return fail(`expected a string, got ${typeOf(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) return fail(`must be one of ${schema.enum.join(', ')}`);
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : fail(`expected a boolean, got ${typeOf(value)}`);
+    default: {
+      if (typeof value !== 'number' || Number.isNaN(value)) return fail(`expected a number, got ${typeOf(value)}`);
+      if (schema.type === 'integer' && !Number.isInteger(value)) return fail('expected a whole number');
+      if (schema.minimum !== undefined && value < schema.minimum) return fail(`must be at least ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return fail(`must be at most ${schema.maximum}`);
+      return [];
+    }
+  }
+};
+
+/** Pulls the JSON object out of a model reply, tolerating code fences, surrounding prose and trailing commas. */
+export const parseFeedbackJson = (reply: string): unknown => {
+  const cleaned = reply.replace(/```json/g, '').replace(/```/g, '');
+  const firstBrace = cleaned.indexOf('{');
+  const lastBrace = cleaned.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace === -1) throw new Error('No JSON object found in response');
+
+  const json = cleaned.substring(firstBrace, lastBrace + 1);
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    try {
+      return JSON.parse(json.replace(/,\s*}/g, '}').replace(/,\s*]/g, ']'));
+    } catch {
+      throw e;
+    }
+  }
+};
+
+const rootField = (path: string) => path.split(/[.[]/)[0];
+
+/**
+ * Asks for feedback until it validates, at most MAX_FEEDBACK_ATTEMPTS times. Each retry lists the
+ * previous errors. Returns the attempt with the fewest broken fields, keeping only its valid
+ * fields; throws only if the first request itself fails.
+ */
+export const generateValidatedFeedback = async (
+  provider: FeedbackProvider,
+  prompt: string,
+  options: FeedbackRequestOptions & { schema: JsonSchema },
+): Promise<ValidatedFeedback> => {
+  const allFields = Object.keys(options.schema.properties ?? {});
+  let best: Omit<ValidatedFeedback, 'attempts'> | null = null;
+  let errors: FieldError[] = [];
+  let attempts = 0;
+
+  while (attempts < MAX_FEEDBACK_ATTEMPTS) {
+    attempts++;
+    let reply: string;
+    try {
+      reply = await provider.generateFeedback(attempts === 1 ? prompt : prompt + FEEDBACK_REPAIR_PROMPT(errors), options);
+    } catch (e) {
+      if (attempts === 1) throw e;
+      console.warn('Feedback retry failed:', e);
+      break;
+    }
+
+    let parsed: unknown = null;
+    try {
+      parsed = parseFeedbackJson(reply);
+      errors = validateFeedback(parsed, options.schema);
+    } catch (e) {
+      errors = [{ path: '', message: `the response was not valid JSON (${e instanceof Error ? e.message : e})` }];
+    }
+
+    // An error on the whole response leaves nothing usable
+    const unusable = errors.some((e) => !e.path);
+    const invalidFields = unusable ? allFields : [...new Set(errors.map((e) => rootField(e.path)))];
+    if (!best || invalidFields.length < best.invalidFields.length) {
+      const data = unusable
+        ? {}
+        : Object.fromEntries(Object.entries(parsed as Record<string, unknown>).filter(([key]) => !invalidFields.includes(key)));
+      best = { data, invalidFields, errors };
+    }
+    if (!errors.length) break;
+    console.warn(`Feedback attempt ${attempts} failed validation:`, errors);
+  }
+
+  return { ...(best ?? { data: {}, invalidFields: allFields, errors }), attempts };
+};
@@ -0,0 +1,28 @@
+import { GoogleGenAI } from '@google/genai';
+import type { FeedbackProvider, FeedbackRequestOptions } from './providers';
+
+const FEEDBACK_MODEL = 'gemini-2.5-flash';
+
+export class GeminiFeedbackProvider implements FeedbackProvider {
+  readonly name = 'Gemini';
+
+  constructor(private apiKey: string) {}
+
+  async generateFeedback(prompt: string, { images = [], schema }: FeedbackRequestOptions = {}): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+
+    const response = await ai.models.generateContent({
+      model: FEEDBACK_MODEL,
+      contents: images.length
+        ? [{ role: 'user', parts: [{ text: prompt }, ...images.map((image) => ({ inlineData: image }))] }]
+        : prompt,
+      config: {
+        responseMimeType: 'application/json',
+        ...(schema ? { responseJsonSchema: schema } : {}),
+        maxOutputTokens: 8192,
+      },
+    });
+
+    return response.text || '{}';
+  }
+}
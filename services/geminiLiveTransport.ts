@@ -0,0 +1,109 @@
+import { GoogleGenAI, type LiveServerMessage, Modality } from '@google/genai';
+import type { LiveConnection, LiveTransportCallbacks, LiveTransportConfig, LiveTransportMessage } from './liveTransport';
+import type { ConversationProvider, VoicePreviewOptions } from './providers';
+import { DEFAULT_LIVE_MODEL } from '../constants';
+
+const DEFAULT_VOICE = 'Fenrir';
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// The Live API has no speaking rate parameter, so pace is requested in the instructions
+const pacingNote = (speakingRate = 1): string => {
+  if (speakingRate <= 0.9) return 'Speak slowly and deliberately, with short pauses between sentences.';
+  if (speakingRate < 0.98) return 'Speak at a slightly slower, relaxed pace.';
+  if (speakingRate >= 1.1) return 'Speak briskly, at a noticeably faster pace than usual.';
+  if (speakingRate > 1.02) return 'Speak at a slightly faster pace than usual.';
+  return '';
+};
+
+const toTransportMessage = (msg: LiveServerMessage): LiveTransportMessage => ({
+  inputTranscription: msg.serverContent?.inputTranscription?.text,
+  outputTranscription: msg.serverContent?.outputTranscription?.text,
+  turnComplete: msg.serverContent?.turnComplete,
+  interrupted: msg.serverContent?.interrupted,
+  audio: msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data,
+});
+
+export class GeminiLiveTransport implements ConversationProvider {
+  readonly name = 'Gemini Live';
+  readonly supportsAudio = true;
+  readonly supportsVideo = true;
+
+  constructor(private apiKey: string) {}
+
+  async connect(config: LiveTransportConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+
+    const pacing = pacingNote(config.speakingRate);
+
+    const session = await ai.live.connect({
+      model: config.model || DEFAULT_LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName || DEFAULT_VOICE } },
+          ...(config.languageCode ? { languageCode: config.languageCode } : {}),
+        },
+        systemInstruction: pacing ? `${config.systemInstruction}\n**SPEAKING PACE:** ${pacing}\n` : config.systemInstruction,
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        ...(config.endOfTurnSilenceMs
+          ? { realtimeInputConfig: { automaticActivityDetection: { silenceDurationMs: config.endOfTurnSilenceMs } } }
+          : {}),
+      },
+      callbacks: {
+        onopen: () => callbacks.onOpen(),
+        onmessage: (msg: LiveServerMessage) => callbacks.onMessage(toTransportMessage(msg)),
+        onclose: (e: CloseEvent) => callbacks.onClose(e?.reason),
+        onerror: (e: ErrorEvent) => callbacks.onError(e),
+      },
+    });
+
+    return {
+      sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+      sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+      // Added to the context without ending the turn, so the candidate is not cut off
+      sendInstruction: (text) =>
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `[Note from the interview coordinator, not the candidate] ${text}` }] }],
+          turnComplete: false,
+        }),
+      sendContext: (text, expectReply) =>
+        session.sendClientContent({
+          turns: [{ role: 'user', parts: [{ text: `[Shared material, not spoken by the candidate] ${text}` }] }],
+          turnComplete: expectReply,
+        }),
+      sendImage: (image, caption, expectReply) =>
+        session.sendClientContent({
+          turns: [
+            {
+              role: 'user',
+              parts: [{ text: `[Shared material, not spoken by the candidate] ${caption}` }, { inlineData: image }],
+            },
+          ],
+          turnComplete: expectReply,
+        }),
+      sendVideoFrame: (frame) => session.sendRealtimeInput({ media: frame }),
+      close: () => session.close(),
+    };
+  }
+
+  async previewVoice(options: VoicePreviewOptions): Promise<string> {
+    const ai = new GoogleGenAI({ apiKey: this.apiKey });
+    const pacing = pacingNote(options.speakingRate);
+
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `${pacing ? `${pacing} ` : ''}Say: ${options.text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+        },
+      },
+    });
+
+    const audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!audio) throw new Error('Voice preview returned no audio');
+    return audio;
+  }
+}
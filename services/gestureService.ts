@@ -1,5 +1,7 @@
 
 import { FilesetResolver, FaceLandmarker, HandLandmarker } from "@mediapipe/tasks-vision";
+import type { NormalizedLandmark } from "@mediapipe/tasks-vision";
+import type { GestureEvent, GestureEventType, GestureMetrics, HeadPose } from "../types";
 
 // Configuration Constants
 const VISION_BASE_URL = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm";
@@ -7,6 +9,66 @@ const DEBOUNCE_MS = 1500; // Time between counting same gesture
 const SMILE_THRESHOLD = 0.55; 
 const EYE_TOUCH_THRESHOLD = 0.18; 
 
+// Gaze = head pose plus the iris offset within the eye, in degrees (+yaw = image right, +pitch = down)
+const EYE_CONTACT_YAW_DEG = 15;
+const EYE_CONTACT_PITCH_DEG = 15;
+const LOOK_DOWN_PITCH_DEG = 25;
+const IRIS_YAW_DEG = 100; // Per unit of horizontal iris offset (eye width), a rough calibration
+const IRIS_PITCH_DEG = 80; // Per unit of vertical iris offset (eye opening)
+const MIN_EYE_OPENING = 0.15; // Opening/width ratio below this is a blink; the iris is ignored
+const LOOK_AWAY_MIN_MS = 1000; // Shorter glances are not counted
+const LOOK_DOWN_MIN_MS = 3000; // Looking down this long suggests reading notes
+const MAX_FRAME_GAP_MS = 500; // Longer gaps between frames (pauses, stalls) are not counted as time
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Head pose from the plane through the cheeks (234, 454), forehead (10) and chin (152).
+ * Landmarks are scaled to the frame's aspect ratio first; z shares the x scale.
+ */
+const estimateHeadPose = (landmarks: NormalizedLandmark[], aspect: number): HeadPose => {
+  const point = (i: number) => ({ x: landmarks[i].x * aspect, y: landmarks[i].y, z: landmarks[i].z * aspect });
+  const left = point(234), right = point(454), top = point(10), chin = point(152);
+  const across = { x: right.x - left.x, y: right.y - left.y, z: right.z - left.z };
+  const down = { x: chin.x - top.x, y: chin.y - top.y, z: chin.z - top.z };
+
+  // Facing direction: the negated normal of the face plane (MediaPipe z grows away from the camera)
+  const facing = {
+    x: -(across.y * down.z - across.z * down.y),
+    y: -(across.z * down.x - across.x * down.z),
+    z: -(across.x * down.y - across.y * down.x),
+  };
+
+  return {
+    yaw: toDegrees(Math.atan2(facing.x, -facing.z)),
+    pitch: toDegrees(Math.atan2(facing.y, -facing.z)),
+    roll: toDegrees(Math.atan2(across.y, across.x)),
+  };
+};
+
+// Iris position within one eye, relative to the eye's center, in eye widths / eye openings
+const irisOffset = (
+  landmarks: NormalizedLandmark[],
+  aspect: number,
+  iris: number,
+  leftCorner: number,
+  rightCorner: number,
+  upperLid: number,
+  lowerLid: number,
+) => {
+  const point = (i: number) => ({ x: landmarks[i].x * aspect, y: landmarks[i].y });
+  const a = point(leftCorner), b = point(rightCorner), p = point(iris);
+  const dx = b.x - a.x, dy = b.y - a.y;
+  const width = Math.sqrt(dx * dx + dy * dy);
+  const opening = point(lowerLid).y - point(upperLid).y;
+  if (!width || opening / width < MIN_EYE_OPENING) return null;
+
+  return {
+    x: ((p.x - a.x) * dx + (p.y - a.y) * dy) / (width * width) - 0.5,
+    y: (p.y - point(upperLid).y) / opening - 0.5,
+  };
+};
+
 export class GestureService {
   private faceLandmarker: FaceLandmarker | null = null;
   private handLandmarker: HandLandmarker | null = null;
@@ -28,6 +90,20 @@ export class GestureService {
   // Video Frame Timing
   private lastVideoTime = -1;
 
+  // Timestamped log of counted gestures (only when detect() is given a timeline position)
+  private events: GestureEvent[] = [];
+  private timelineMs: number | undefined;
+
+  // Gaze tracking; times are in ms of detected video, pauses excluded
+  private lastFrameAt = 0;
+  private trackedMs = 0;
+  private eyeContactMs = 0;
+  private poseTotal = { yaw: 0, pitch: 0, roll: 0, frames: 0 };
+  private lookAway: { ms: number; atMs?: number; counted: boolean } | null = null;
+  private lookAwayDurations: number[] = [];
+  private lookDown: { ms: number; atMs?: number; counted: boolean } | null = null;
+  private lookDownDurations: number[] = [];
+
   // Metrics
   public metrics = {
     smileCount: 0,
@@ -135,9 +211,83 @@ export class GestureService {
     this.isCurrentlyTouchingEye = false;
     this.isCurrentlyGesturing = false;
     this.lastVideoTime = -1;
+    this.events = [];
+    this.lastFrameAt = 0;
+    this.trackedMs = 0;
+    this.eyeContactMs = 0;
+    this.poseTotal = { yaw: 0, pitch: 0, roll: 0, frames: 0 };
+    this.lookAway = null;
+    this.lookAwayDurations = [];
+    this.lookDown = null;
+    this.lookDownDurations = [];
   }
 
-  detect(videoElement: HTMLVideoElement) {
+  private recordEvent(type: GestureEventType, atMs = this.timelineMs) {
+    if (atMs !== undefined) {
+      this.events.push({ type, atMs });
+    }
+  }
+
+  /**
+   * Advances an episode (looking away, looking down) by one frame. Episodes count once they
+   * last `minMs`, and their durations are kept when they end.
+   */
+  private trackEpisode(
+    episode: { ms: number; atMs?: number; counted: boolean } | null,
+    active: boolean,
+    dt: number,
+    minMs: number,
+    type: GestureEventType,
+    durations: number[],
+  ) {
+    if (!active) {
+      if (episode?.counted) durations.push(episode.ms);
+      return null;
+    }
+    const current = episode ?? { ms: 0, atMs: this.timelineMs, counted: false };
+    current.ms += dt;
+    if (!current.counted && current.ms >= minMs) {
+      current.counted = true;
+      this.recordEvent(type, current.atMs);
+    }
+    return current;
+  }
+
+  // A frame without a face counts as looking away
+  private trackGaze(landmarks: NormalizedLandmark[] | null, aspect: number, now: number) {
+    const dt = this.lastFrameAt ? Math.min(now - this.lastFrameAt, MAX_FRAME_GAP_MS) : 0;
+    this.lastFrameAt = now;
+
+    let eyeContact = false;
+    let lookingDown = false;
+    if (landmarks) {
+      const pose = estimateHeadPose(landmarks, aspect);
+      this.poseTotal.yaw += pose.yaw;
+      this.poseTotal.pitch += pose.pitch;
+      this.poseTotal.roll += pose.roll;
+      this.poseTotal.frames++;
+
+      // Both irises, averaged; landmarks 468/473 are the iris centers
+      const eyes = [
+        irisOffset(landmarks, aspect, 468, 33, 133, 159, 145),
+        irisOffset(landmarks, aspect, 473, 362, 263, 386, 374),
+      ].filter((eye): eye is { x: number; y: number } => eye !== null);
+      const irisX = eyes.length ? eyes.reduce((sum, eye) => sum + eye.x, 0) / eyes.length : 0;
+      const irisY = eyes.length ? eyes.reduce((sum, eye) => sum + eye.y, 0) / eyes.length : 0;
+
+      const gazeYaw = pose.yaw + irisX * IRIS_YAW_DEG;
+      const gazePitch = pose.pitch + irisY * IRIS_PITCH_DEG;
+      eyeContact = Math.abs(gazeYaw) <= EYE_CONTACT_YAW_DEG && Math.abs(gazePitch) <= EYE_CONTACT_PITCH_DEG;
+      lookingDown = gazePitch >= LOOK_DOWN_PITCH_DEG;
+    }
+
+    this.trackedMs += dt;
+    if (eyeContact) this.eyeContactMs += dt;
+    this.lookAway = this.trackEpisode(this.lookAway, !eyeContact, dt, LOOK_AWAY_MIN_MS, "lookAway", this.lookAwayDurations);
+    this.lookDown = this.trackEpisode(this.lookDown, lookingDown, dt, LOOK_DOWN_MIN_MS, "lookDown", this.lookDownDurations);
+  }
+
+  detect(videoElement: HTMLVideoElement, timelineMs?: number) {
     if (!this.isReady || !this.faceLandmarker || !this.handLandmarker) return;
 
     // Use performance.now() to ensure strictly increasing timestamps
@@ -147,10 +297,15 @@ export class GestureService {
     // Skip if we are processing too fast or duplicate frame time (though perf.now changes)
     if (now <= this.lastVideoTime) return;
     this.lastVideoTime = now;
+    this.timelineMs = timelineMs;
 
     const faceResult = this.faceLandmarker.detectForVideo(videoElement, now);
     const handResult = this.handLandmarker.detectForVideo(videoElement, now);
 
+    // --- GAZE LOGIC ---
+    const aspect = videoElement.videoHeight ? videoElement.videoWidth / videoElement.videoHeight : 4 / 3;
+    this.trackGaze(faceResult.faceLandmarks[0] ?? null, aspect, now);
+
     // --- METRICS LOGIC ---
     if (faceResult.faceLandmarks.length > 0) {
       const landmarks = faceResult.faceLandmarks[0];
@@ -167,6 +322,7 @@ export class GestureService {
       if ((mouthWidth / faceWidth) > SMILE_THRESHOLD) {
         if (!this.isCurrentlySmiling && (Date.now() - this.lastSmileTime > DEBOUNCE_MS)) {
           this.metrics.smileCount++;
+          this.recordEvent('smile');
           this.lastSmileTime = Date.now();
           this.isCurrentlySmiling = true;
         }
@@ -196,6 +352,7 @@ export class GestureService {
         if (touching) {
              if (!this.isCurrentlyTouchingEye && (Date.now() - this.lastEyeTouchTime > DEBOUNCE_MS)) {
                 this.metrics.eyeTouchCount++;
+                this.recordEvent('eyeTouch');
                 this.lastEyeTouchTime = Date.now();
                 this.isCurrentlyTouchingEye = true;
              }
@@ -210,6 +367,7 @@ export class GestureService {
     if (handResult.landmarks.length > 0) {
         if (!this.isCurrentlyGesturing && (Date.now() - this.lastGestureTime > 3000)) {
              this.metrics.handGestureCount++;
+             this.recordEvent('handGesture');
              this.lastGestureTime = Date.now();
              this.isCurrentlyGesturing = true;
         }
@@ -218,8 +376,29 @@ export class GestureService {
     }
   }
 
-  getMetrics() {
-    return { ...this.metrics };
+  getMetrics(): GestureMetrics {
+    // Episodes still running at the end count if they are long enough
+    const lookAways = [...this.lookAwayDurations, ...(this.lookAway?.counted ? [this.lookAway.ms] : [])];
+    const lookDowns = [...this.lookDownDurations, ...(this.lookDown?.counted ? [this.lookDown.ms] : [])];
+    const seconds = (ms: number) => Math.round(ms / 100) / 10;
+    const { frames, ...pose } = this.poseTotal;
+
+    return {
+      ...this.metrics,
+      eyeContactPercent: this.trackedMs ? Math.round((this.eyeContactMs / this.trackedMs) * 100) : null,
+      lookAwayCount: lookAways.length,
+      lookAwayAverageSeconds: lookAways.length ? seconds(lookAways.reduce((sum, ms) => sum + ms, 0) / lookAways.length) : 0,
+      lookAwayLongestSeconds: lookAways.length ? seconds(Math.max(...lookAways)) : 0,
+      lookDownCount: lookDowns.length,
+      lookDownSeconds: seconds(lookDowns.reduce((sum, ms) => sum + ms, 0)),
+      averageHeadPose: frames
+        ? { yaw: Math.round(pose.yaw / frames), pitch: Math.round(pose.pitch / frames), roll: Math.round(pose.roll / frames) }
+        : null,
+    };
+  }
+
+  getEvents(): GestureEvent[] {
+    return [...this.events];
   }
 }
 
@@ -0,0 +1,136 @@
+import type { AgendaStage, InterviewConfig, PersonaProfile, StageFeedback } from '../types';
+import { DEFAULT_AGENDA } from '../constants';
+
+const CLOSING_STAGE_ID = 'questions';
+
+/**
+ * Adapts the default agenda to the session: stages the persona skips are left out (the
+ * behavioral preset has no technical stage), and time-boxed interviews have their stage targets scaled to fit, with the
+ * closing stage lined up with the wrap-up cue.
+ */
+export const buildAgenda = (config: InterviewConfig, persona: PersonaProfile): AgendaStage[] => {
+  const stages = DEFAULT_AGENDA.filter((stage) => !persona.skipStages?.includes(stage.id)).map((stage) => ({ ...stage }));
+
+  if (config.durationMinutes > 0) {
+    const closing = stages.find((stage) => stage.id === CLOSING_STAGE_ID);
+    const closingMinutes = closing ? Math.min(config.wrapUpMinutes, config.durationMinutes / 2) : 0;
+    const others = stages.filter((stage) => stage !== closing);
+    const plannedMinutes = others.reduce((total, stage) => total + stage.targetMinutes, 0);
+    const scale = (config.durationMinutes - closingMinutes) / plannedMinutes;
+
+    for (const stage of others) stage.targetMinutes = Math.max(1, Math.round(stage.targetMinutes * scale));
+    if (closing) closing.targetMinutes = closingMinutes;
+  }
+
+  return stages;
+};
+
+export interface StageSummary {
+  stage: AgendaStage;
+  answers: number;
+  actualSeconds: number;
+}
+
+interface StageProgress {
+  startedAtMs: number | null;
+  endedAtMs: number | null;
+  answers: number;
+}
+
+/**
+ * Tracks which agenda stage the interview is in. Times are on the session clock
+ * (see SessionClock). A stage is due to advance once the candidate has answered its
+ * questions or its target time has run out; the caller decides when to act on that.
+ */
+export class AgendaTracker {
+  private index = 0;
+  private progress: StageProgress[];
+
+  constructor(readonly stages: AgendaStage[]) {
+    this.progress = stages.map(() => ({ startedAtMs: null, endedAtMs: null, answers: 0 }));
+  }
+
+  start(atMs: number) {
+    this.index = 0;
+    this.progress = this.stages.map(() => ({ startedAtMs: null, endedAtMs: null, answers: 0 }));
+    if (this.progress[0]) this.progress[0].startedAtMs = atMs;
+  }
+
+  currentIndex() {
+    return this.index;
+  }
+
+  currentStage(): AgendaStage | null {
+    return this.stages[this.index] ?? null;
+  }
+
+  currentAnswers() {
+    return this.progress[this.index]?.answers ?? 0;
+  }
+
+  isLastStage() {
+    return this.index >= this.stages.length - 1;
+  }
+
+  recordAnswer() {
+    const progress = this.progress[this.index];
+    if (progress) progress.answers++;
+  }
+
+  shouldAdvance(atMs: number): boolean {
+    const stage = this.currentStage();
+    const progress = this.progress[this.index];
+    if (!stage || !progress || this.isLastStage()) return false;
+
+    const elapsedMs = atMs - (progress.startedAtMs ?? atMs);
+    return progress.answers >= stage.questionCount || elapsedMs >= stage.targetMinutes * 60000;
+  }
+
+  // Moves to the next stage and returns it, or null when already on the last one
+  advance(atMs: number): AgendaStage | null {
+    if (this.isLastStage()) return null;
+    return this.jumpTo(this.index + 1, atMs);
+  }
+
+  // Skips straight to the closing stage (e.g. when time is running out)
+  skipToLast(atMs: number): AgendaStage | null {
+    if (this.isLastStage()) return null;
+    return this.jumpTo(this.stages.length - 1, atMs);
+  }
+
+  private jumpTo(target: number, atMs: number): AgendaStage {
+    this.progress[this.index].endedAtMs = atMs;
+    this.index = target;
+    this.progress[target].startedAtMs = atMs;
+    return this.stages[target];
+  }
+
+  // Stages that were reached, with how long they ran
+  summarize(endMs: number): StageSummary[] {
+    return this.stages.flatMap((stage, i) => {
+      const progress = this.progress[i];
+      if (progress.startedAtMs === null) return [];
+      const end = progress.endedAtMs ?? endMs;
+      return [{ stage, answers: progress.answers, actualSeconds: Math.max(0, Math.round((end - progress.startedAtMs) / 1000)) }];
+    });
+  }
+}
+
+// Merges the model's per-stage scores into the tracked stage timings. Validation rejects a
+// "stages" list without an entry for every stage, so the section is dropped instead of scored 0.
+export const toStageFeedback = (summaries: StageSummary[], scored: unknown): StageFeedback[] => {
+  const entries = Array.isArray(scored) ? scored : [];
+  return summaries.map(({ stage, answers, actualSeconds }) => {
+    const entry = entries.find((e) => e && typeof e === 'object' && e.id === stage.id);
+    return {
+      id: stage.id,
+      title: stage.title,
+      score: typeof entry?.score === 'number' ? Math.max(0, Math.min(10, entry.score)) : 0,
+      comment: typeof entry?.comment === 'string' ? entry.comment : '',
+      answers,
+      questionCount: stage.questionCount,
+      targetMinutes: stage.targetMinutes,
+      actualSeconds,
+    };
+  });
+};
@@ -0,0 +1,32 @@
+import type { InterviewLanguage, LanguageFeedback } from '../types';
+import { DEFAULT_LANGUAGE, INTERVIEW_LANGUAGES } from '../constants';
+
+// Falls back to English so an unknown saved code never breaks a session
+export const findLanguage = (code: string | null | undefined): InterviewLanguage =>
+  INTERVIEW_LANGUAGES.find((l) => l.code === code) ?? INTERVIEW_LANGUAGES.find((l) => l.code === DEFAULT_LANGUAGE)!;
+
+export const isKnownLanguage = (code: unknown): code is string => INTERVIEW_LANGUAGES.some((l) => l.code === code);
+
+const toScore = (value: unknown) => (typeof value === 'number' ? Math.max(0, Math.min(10, value)) : 0);
+
+const toText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Coerces the model's language coaching block; null when it is missing altogether
+export const toLanguageFeedback = (reported: unknown): LanguageFeedback | null => {
+  if (!reported || typeof reported !== 'object') return null;
+  const data = reported as Record<string, unknown>;
+  const corrections = Array.isArray(data.corrections) ? data.corrections : [];
+  const tips = Array.isArray(data.tips) ? data.tips : [];
+
+  return {
+    fluency: toScore(data.fluency),
+    grammar: toScore(data.grammar),
+    vocabulary: toScore(data.vocabulary),
+    nativeLanguageSwitches: typeof data.nativeLanguageSwitches === 'number' ? Math.max(0, Math.round(data.nativeLanguageSwitches)) : 0,
+    corrections: corrections
+      .map((c) => ({ original: toText(c?.original), improved: toText(c?.improved), note: toText(c?.note) }))
+      .filter((c) => c.original && c.improved)
+      .slice(0, 5),
+    tips: tips.map(toText).filter(Boolean).slice(0, 5),
+  };
+};
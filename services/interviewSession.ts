@@ -0,0 +1,306 @@
+import type { AudioChunk, ImageAttachment, InstructionKind, LiveConnection, LiveTransport, LiveTransportConfig, LiveTransportMessage } from './liveTransport';
+
+export interface TranscriptDeltaEvent {
+  role: 'user' | 'model';
+  delta: string;
+  text: string; // Accumulated text of the current turn
+}
+
+export interface TurnEvent {
+  input: string;
+  output: string;
+}
+
+export interface SessionClosedEvent {
+  reason?: string;
+}
+
+export interface SessionErrorEvent {
+  message: string;
+  cause: unknown;
+}
+
+export interface InterviewSessionEventMap {
+  open: void;
+  ready: void; // The server accepted the session (see STABLE_CONNECTION_MS)
+  transcript: TranscriptDeltaEvent;
+  turnComplete: TurnEvent;
+  interrupted: TurnEvent;
+  audio: string; // Base64 16-bit PCM @ 24kHz
+  closed: SessionClosedEvent;
+  error: SessionErrorEvent;
+}
+
+export type InterviewSessionEvent = keyof InterviewSessionEventMap;
+
+type Listener<K extends InterviewSessionEvent> = (payload: InterviewSessionEventMap[K]) => void;
+
+// A socket can open and then have its setup rejected (bad key, model or voice). The session
+// counts as accepted on the first server message, or once it has stayed open this long.
+const STABLE_CONNECTION_MS = 5000;
+
+// Map raw transport errors to something we can show the candidate
+const describeError = (error: unknown): string => {
+  const errorStr = String((error as { message?: string })?.message ?? error);
+  if (errorStr.includes('Network error') || errorStr.includes('network')) {
+    return 'Connection interrupted due to network instability. Please check your internet.';
+  }
+  if (errorStr.includes('permission')) {
+    return 'Session expired or permission denied. Please reset and try again.';
+  }
+  return 'Connection was interrupted.';
+};
+
+/**
+ * One live interview conversation over a LiveTransport. Owns the connection lifecycle
+ * and the per-turn transcript buffers, and exposes everything else as typed events.
+ * Once closed (by us or the server) an instance ignores all late transport callbacks,
+ * so create a new session for every interview.
+ */
+export class InterviewSession {
+  private listeners = new Map<InterviewSessionEvent, Set<Listener<any>>>();
+  private connectionPromise: Promise<LiveConnection> | null = null;
+  private connection: LiveConnection | null = null;
+  private isClosed = false;
+  private isReady = false;
+  private readyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private currentInput = '';
+  private currentOutput = '';
+
+  constructor(
+    private transport: LiveTransport,
+    private config: LiveTransportConfig,
+  ) {}
+
+  on<K extends InterviewSessionEvent>(event: K, listener: Listener<K>): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set?.delete(listener);
+    };
+  }
+
+  private emit<K extends InterviewSessionEvent>(event: K, payload: InterviewSessionEventMap[K]) {
+    this.listeners.get(event)?.forEach((listener) => {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.error(`InterviewSession "${event}" listener failed:`, e);
+      }
+    });
+  }
+
+  async start(): Promise<void> {
+    this.connectionPromise = this.transport.connect(
+      this.config,
+      {
+        onOpen: () => {
+          if (this.isClosed) return;
+          this.emit('open', undefined);
+          this.readyTimer = setTimeout(() => this.markReady(), STABLE_CONNECTION_MS);
+        },
+        onMessage: (message) => {
+          if (this.isClosed) return;
+          this.markReady();
+          this.handleMessage(message);
+        },
+        onClose: (reason) => {
+          if (this.isClosed) return;
+          this.isClosed = true;
+          this.clearReadyTimer();
+          this.emit('closed', { reason });
+        },
+        onError: (error) => {
+          if (this.isClosed) {
+            console.warn('Ignored error from closed session:', error);
+            return;
+          }
+          this.isClosed = true;
+          this.clearReadyTimer();
+          this.emit('error', { message: describeError(error), cause: error });
+          this.connection?.close();
+        },
+      },
+    );
+
+    const connection = await this.connectionPromise;
+
+    if (this.isClosed) {
+      console.log('Session connected AFTER cancellation. Closing immediately.');
+      try {
+        connection.close();
+      } catch (e) {}
+      return;
+    }
+
+    this.connection = connection;
+  }
+
+  sendAudio(chunk: AudioChunk) {
+    if (this.isClosed || !this.connectionPromise) return;
+
+    // Queue behind the connect call so chunks captured before it resolves are not lost
+    this.connectionPromise
+      .then((connection) => {
+        if (this.isClosed) return;
+        try {
+          connection.sendAudio(chunk);
+        } catch (err) {
+          console.warn('Failed to send audio chunk:', err);
+        }
+      })
+      .catch(() => {});
+  }
+
+  // Typed answers never come back as an input transcription, so record them here
+  sendText(text: string) {
+    if (this.isClosed || !this.connectionPromise) return;
+
+    this.currentInput += (this.currentInput ? ' ' : '') + text;
+    this.emit('transcript', { role: 'user', delta: text, text: this.currentInput });
+
+    this.connectionPromise
+      .then((connection) => {
+        if (this.isClosed) return;
+        try {
+          connection.sendText(text);
+        } catch (err) {
+          console.warn('Failed to send text turn:', err);
+        }
+      })
+      .catch(() => {});
+  }
+
+  // Steers the interviewer (e.g. time checks) without showing up as a candidate turn
+  sendInstruction(text: string, kind: InstructionKind) {
+    if (this.isClosed || !this.connectionPromise) return;
+
+    this.connectionPromise
+      .then((connection) => {
+        if (this.isClosed) return;
+        try {
+          connection.sendInstruction(text, kind);
+        } catch (err) {
+          console.warn('Failed to send instruction:', err);
+        }
+      })
+      .catch(() => {});
+  }
+
+  // Shares material such as the candidate's code; it never shows up as a candidate turn
+  sendContext(text: string, expectReply: boolean) {
+    if (this.isClosed || !this.connectionPromise) return;
+
+    this.connectionPromise
+      .then((connection) => {
+        if (this.isClosed) return;
+        try {
+          connection.sendContext(text, expectReply);
+        } catch (err) {
+          console.warn('Failed to send context:', err);
+        }
+      })
+      .catch(() => {});
+  }
+
+  // Shares a picture such as a whiteboard snapshot, captioned for the interviewer
+  sendImage(image: ImageAttachment, caption: string, expectReply: boolean) {
+    if (this.isClosed || !this.connectionPromise) return;
+
+    this.connectionPromise
+      .then((connection) => {
+        if (this.isClosed) return;
+        try {
+          connection.sendImage(image, caption, expectReply);
+        } catch (err) {
+          console.warn('Failed to send image:', err);
+        }
+      })
+      .catch(() => {});
+  }
+
+  // Webcam frames are dropped rather than queued while connecting; a stale frame is no use
+  sendVideoFrame(frame: ImageAttachment) {
+    if (this.isClosed || !this.connection) return;
+
+    try {
+      this.connection.sendVideoFrame(frame);
+    } catch (err) {
+      console.warn('Failed to send video frame:', err);
+    }
+  }
+
+  // Text of the turn still in progress, for callers that end the session mid-turn
+  getPendingTurn(): TurnEvent {
+    return { input: this.currentInput, output: this.currentOutput };
+  }
+
+  isActive(): boolean {
+    return !this.isClosed;
+  }
+
+  async close(): Promise<void> {
+    this.isClosed = true;
+    this.clearReadyTimer();
+    this.listeners.clear();
+
+    if (this.connection) {
+      try {
+        this.connection.close();
+      } catch (e) {
+        console.warn('Error closing Live session:', e);
+      }
+      this.connection = null;
+    }
+  }
+
+  private markReady() {
+    this.clearReadyTimer();
+    if (this.isReady || this.isClosed) return;
+    this.isReady = true;
+    this.emit('ready', undefined);
+  }
+
+  private clearReadyTimer() {
+    if (this.readyTimer) clearTimeout(this.readyTimer);
+    this.readyTimer = null;
+  }
+
+  private handleMessage(message: LiveTransportMessage) {
+    if (message.outputTranscription) {
+      this.currentOutput += message.outputTranscription;
+      this.emit('transcript', { role: 'model', delta: message.outputTranscription, text: this.currentOutput });
+    }
+
+    if (message.inputTranscription) {
+      this.currentInput += message.inputTranscription;
+      this.emit('transcript', { role: 'user', delta: message.inputTranscription, text: this.currentInput });
+    }
+
+    if (message.turnComplete) {
+      const turn = this.takePendingTurn();
+      this.emit('turnComplete', turn);
+    }
+
+    if (message.interrupted) {
+      const turn = this.takePendingTurn();
+      this.emit('interrupted', turn);
+    }
+
+    if (message.audio) {
+      this.emit('audio', message.audio);
+    }
+  }
+
+  private takePendingTurn(): TurnEvent {
+    const turn = { input: this.currentInput, output: this.currentOutput };
+    this.currentInput = '';
+    this.currentOutput = '';
+    return turn;
+  }
+}
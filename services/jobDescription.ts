@@ -0,0 +1,109 @@
+import type { JobDescription, JobFitFeedback, JobFitStatus, JobRequirement, JobRequirementKind } from '../types';
+
+// Keeps the prompt focused; the first items in a JD are usually the ones that matter
+const MAX_SKILLS = 10;
+const MAX_RESPONSIBILITIES = 6;
+
+const FIT_STATUSES: JobFitStatus[] = ['strong', 'partial', 'gap', 'untested'];
+
+// Section headings, matched at the start of a line or sentence. A null kind marks
+// sections with nothing to interview on (benefits, company blurb, ...).
+const SECTIONS: { kind: JobRequirementKind | null; pattern: RegExp }[] = [
+  {
+    kind: 'responsibility',
+    pattern: /^(?:key |core )?(?:responsibilities|duties|what you['’]?ll do|what you will do|the role|your role|day[- ]to[- ]day)\b:?/i,
+  },
+  {
+    kind: 'skill',
+    pattern:
+      /^(?:requirements|qualifications|(?:required|preferred|minimum|basic) (?:skills|qualifications)|skills|what you['’]?ll bring|what we['’]?re looking for|must[- ]haves?|nice[- ]to[- ]haves?|about you|you have)\b:?/i,
+  },
+  { kind: null, pattern: /^(?:benefits|perks|about us|about the company|who we are|compensation|salary|equal opportunity|how to apply)\b:?/i },
+];
+
+// Used when a line sits outside any recognised section (e.g. PDF text, which arrives flattened)
+const SKILL_CUE = /\b(?:experience (?:with|in)|proficien|knowledge of|familiar|expertise|degree in|fluent|understanding of|ability to|certifi)/i;
+const RESPONSIBILITY_CUE = /\b(?:you will|you['’]ll|responsible for|own(?:ing)? the|lead(?:ing)? the|partner with|collaborate with)\b/i;
+
+const LEVEL_PATTERN = /\b(intern(?:ship)?|entry[- ]level|junior|mid[- ]level|senior|staff|principal)\b/i;
+const YEARS_PATTERN = /\b(\d{1,2})\+?\s*(?:(?:-|to)\s*\d{1,2}\s*)?years?\b/i;
+
+const BULLET = /^\s*(?:[-*•▪◦+]|\d+[.)])\s+/;
+
+// Lines, then sentences within them, so flattened PDF text still yields usable items
+const toSegments = (text: string): string[] =>
+  text
+    .split(/\r?\n/)
+    .flatMap((line) => line.replace(BULLET, '').split(/(?<=[.;!?])\s+(?=[A-Z])/))
+    .map((segment) => segment.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Pulls required skills, responsibilities and seniority signals out of a job description.
+ * Heuristic on purpose: works offline and is predictable, and the interviewer model
+ * sees the raw items rather than a summary of them.
+ */
+export const parseJobDescription = (text: string): JobDescription => {
+  const skills: string[] = [];
+  const responsibilities: string[] = [];
+  let section: JobRequirementKind | null | undefined;
+
+  const lines = text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+  const firstLine = lines[0] ?? '';
+  const title =
+    lines.length > 1 && firstLine.length <= 80 && !/[.:]$/.test(firstLine) && !SECTIONS.some((s) => s.pattern.test(firstLine))
+      ? firstLine.replace(/^#+\s*/, '')
+      : undefined;
+
+  for (const raw of toSegments(text)) {
+    let segment = raw.replace(/^#+\s*/, '');
+    const heading = SECTIONS.find((s) => s.pattern.test(segment));
+    if (heading) {
+      section = heading.kind;
+      segment = segment.replace(heading.pattern, '').replace(/^[\s:–-]+/, '');
+    }
+
+    const item = segment.replace(/[.;]+$/, '').trim();
+    if (item.length < 12 || item.length > 200 || item === title) continue;
+
+    const kind =
+      section !== undefined ? section : SKILL_CUE.test(item) ? 'skill' : RESPONSIBILITY_CUE.test(item) ? 'responsibility' : null;
+    const entry = capitalize(item);
+    if (kind === 'skill' && skills.length < MAX_SKILLS && !skills.includes(entry)) skills.push(entry);
+    if (kind === 'responsibility' && responsibilities.length < MAX_RESPONSIBILITIES && !responsibilities.includes(entry)) {
+      responsibilities.push(entry);
+    }
+  }
+
+  const seniority: string[] = [];
+  const level = (title ?? '').match(LEVEL_PATTERN) ?? text.match(LEVEL_PATTERN);
+  if (level) seniority.push(`${capitalize(level[1].toLowerCase())}-level scope and ownership`);
+  const years = text.match(YEARS_PATTERN);
+  if (years) seniority.push(`${years[0]} of relevant experience`);
+
+  const requirements: JobRequirement[] = [
+    ...skills.map((text) => ({ kind: 'skill' as const, text })),
+    ...responsibilities.map((text) => ({ kind: 'responsibility' as const, text })),
+    ...seniority.map((text) => ({ kind: 'seniority' as const, text })),
+  ].map((requirement, i) => ({ id: `R${i + 1}`, ...requirement }));
+
+  return { title, requirements };
+};
+
+// Merges the model's fit assessment with the parsed requirements. Anything it skipped
+// is reported as untested rather than as a gap.
+export const toJobFitFeedback = (jobDescription: JobDescription, reported: unknown): JobFitFeedback[] => {
+  const entries = Array.isArray(reported) ? reported : [];
+  return jobDescription.requirements.map((requirement) => {
+    const entry = entries.find((e) => e && typeof e === 'object' && e.id === requirement.id);
+    return {
+      id: requirement.id,
+      kind: requirement.kind,
+      requirement: requirement.text,
+      status: FIT_STATUSES.includes(entry?.status) ? entry.status : 'untested',
+      evidence: typeof entry?.evidence === 'string' ? entry.evidence : '',
+    };
+  });
+};
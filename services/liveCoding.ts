@@ -0,0 +1,20 @@
+import type { CodeRevision, CodingFeedback } from '../types';
+
+const toScore = (value: unknown) => (typeof value === 'number' ? Math.max(0, Math.min(10, value)) : 0);
+
+// Adds the editor history to the model's code quality scores; missing scores count as 0
+export const toCodingFeedback = (revisions: CodeRevision[], reported: unknown): CodingFeedback => {
+  const data = reported && typeof reported === 'object' ? (reported as Record<string, unknown>) : {};
+  const final = revisions[revisions.length - 1];
+  return {
+    language: final.language,
+    finalCode: final.code,
+    revisions: revisions.length,
+    submissions: revisions.filter((r) => r.submitted).length,
+    score: toScore(data.score),
+    correctness: toScore(data.correctness),
+    readability: toScore(data.readability),
+    efficiency: toScore(data.efficiency),
+    comment: typeof data.comment === 'string' ? data.comment : '',
+  };
+};
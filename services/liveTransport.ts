@@ -0,0 +1,57 @@
+// Base64 encoded PCM chunk, shaped like the `Blob` produced by createPcmBlob
+export interface AudioChunk {
+  data: string;
+  mimeType: string;
+}
+
+// Base64 encoded still image, e.g. a JPEG snapshot of the whiteboard
+export interface ImageAttachment {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveTransportConfig {
+  systemInstruction: string;
+  // Optional speech settings; transports fall back to their own defaults
+  model?: string;
+  voiceName?: string;
+  speakingRate?: number; // 1 = natural pace
+  endOfTurnSilenceMs?: number; // Candidate silence that ends their turn; longer lets them pause to think
+  languageCode?: string; // BCP-47 hint for speech and transcription; omit to auto-detect
+}
+
+// Normalized server message. Transports translate their wire format into this shape.
+export interface LiveTransportMessage {
+  inputTranscription?: string;
+  outputTranscription?: string;
+  turnComplete?: boolean;
+  interrupted?: boolean;
+  audio?: string; // Base64 16-bit PCM @ 24kHz, mono
+}
+
+export interface LiveTransportCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveTransportMessage) => void;
+  onClose: (reason?: string) => void;
+  onError: (error: unknown) => void;
+}
+
+// What an instruction is for, so transports that cannot read it (the scripted one) can still act on it
+export type InstructionKind = 'stageChange' | 'wrapUp';
+
+export interface LiveConnection {
+  sendAudio(chunk: AudioChunk): void;
+  sendText(text: string): void; // A complete candidate turn typed instead of spoken
+  sendInstruction(text: string, kind: InstructionKind): void; // Direction for the interviewer only, never part of the transcript
+  // Reference material for the interviewer (e.g. the candidate's code); expectReply asks it to respond now
+  sendContext(text: string, expectReply: boolean): void;
+  // Same as sendContext for a picture, with the text as its caption
+  sendImage(image: ImageAttachment, caption: string, expectReply: boolean): void;
+  // One webcam frame of a low-rate video stream; never prompts a reply on its own
+  sendVideoFrame(frame: ImageAttachment): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  connect(config: LiveTransportConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection>;
+}
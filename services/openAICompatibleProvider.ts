@@ -0,0 +1,151 @@
+import type { ImageAttachment, LiveConnection, LiveTransportCallbacks, LiveTransportConfig } from './liveTransport';
+import type { ConversationProvider, FeedbackProvider, FeedbackRequestOptions } from './providers';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+type ChatContentPart = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+// Images go in a user message as data URLs; endpoints without vision support will reject them
+const withImages = (text: string, images: ImageAttachment[]): ChatMessage => ({
+  role: 'user',
+  content: [
+    { type: 'text', text },
+    ...images.map((image): ChatContentPart => ({
+      type: 'image_url',
+      image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+    })),
+  ],
+});
+
+// Kick-off turn so the interviewer opens the conversation like the Live API does
+const OPENING_PROMPT = '(The candidate has joined the call. Begin the interview.)';
+
+const chatCompletion = async (
+  options: OpenAICompatibleOptions,
+  messages: ChatMessage[],
+  extra: Record<string, unknown> = {},
+  signal?: AbortSignal,
+): Promise<string> => {
+  const response = await fetch(`${options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+    },
+    body: JSON.stringify({ model: options.model, messages, ...extra }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Chat endpoint returned ${response.status} ${response.statusText}`);
+  }
+
+  const json = await response.json();
+  return json?.choices?.[0]?.message?.content ?? '';
+};
+
+/**
+ * Turn-based conversation over any OpenAI-compatible chat endpoint. There is no audio in
+ * either direction, so it only serves interviews with typed answers.
+ */
+export class OpenAICompatibleConversationProvider implements ConversationProvider {
+  readonly name = 'OpenAI-compatible';
+  readonly supportsAudio = false;
+  readonly supportsVideo = false;
+
+  constructor(private options: OpenAICompatibleOptions) {}
+
+  async connect(config: LiveTransportConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const controller = new AbortController();
+    const history: ChatMessage[] = [{ role: 'system', content: config.systemInstruction }];
+    let closed = false;
+
+    // Turns are answered strictly in order
+    let queue: Promise<void> = Promise.resolve();
+
+    const reply = (message: string | ChatMessage) => {
+      queue = queue.then(async () => {
+        if (closed) return;
+        history.push(typeof message === 'string' ? { role: 'user', content: message } : message);
+        try {
+          const text = await chatCompletion(this.options, history, {}, controller.signal);
+          if (closed) return;
+          history.push({ role: 'assistant', content: text });
+          callbacks.onMessage({ outputTranscription: text });
+          callbacks.onMessage({ turnComplete: true });
+        } catch (err) {
+          if (closed) return;
+          closed = true;
+          callbacks.onError(err);
+        }
+      });
+    };
+
+    setTimeout(() => {
+      if (closed) return;
+      callbacks.onOpen();
+      reply(OPENING_PROMPT);
+    }, 0);
+
+    return {
+      sendAudio: () => {},
+      sendText: (text) => reply(text),
+      // Queued so it lands after any reply still being generated
+      sendInstruction: (text) => {
+        queue = queue.then(() => {
+          history.push({ role: 'system', content: text });
+        });
+      },
+      sendContext: (text, expectReply) => {
+        if (expectReply) {
+          reply(text);
+          return;
+        }
+        queue = queue.then(() => {
+          history.push({ role: 'system', content: text });
+        });
+      },
+      sendImage: (image, caption, expectReply) => {
+        const message = withImages(caption, [image]);
+        if (expectReply) {
+          reply(message);
+          return;
+        }
+        queue = queue.then(() => {
+          history.push(message);
+        });
+      },
+      sendVideoFrame: () => {},
+      close: () => {
+        closed = true;
+        controller.abort();
+      },
+    };
+  }
+}
+
+export class OpenAICompatibleFeedbackProvider implements FeedbackProvider {
+  readonly name = 'OpenAI-compatible';
+
+  constructor(private options: OpenAICompatibleOptions) {}
+
+  async generateFeedback(prompt: string, { images = [], schema }: FeedbackRequestOptions = {}): Promise<string> {
+    const message: ChatMessage = images.length ? withImages(prompt, images) : { role: 'user', content: prompt };
+    const text = await chatCompletion(this.options, [message], {
+      response_format: schema
+        ? { type: 'json_schema', json_schema: { name: 'interview_feedback', schema } }
+        : { type: 'json_object' },
+      max_tokens: 8192,
+    });
+    return text || '{}';
+  }
+}
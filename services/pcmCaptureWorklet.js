@@ -0,0 +1,117 @@
+// AudioWorklet processor for microphone capture. Runs on the audio rendering thread:
+// resamples mono input to the target rate with a windowed-sinc low-pass filter and
+// posts fixed-size Float32Array frames back to the main thread.
+//
+// Loaded through audioWorklet.addModule(), so it must stay plain, self-contained JS.
+
+const ZERO_CROSSINGS = 16; // Kernel half-width in zero crossings of the sinc
+const TABLE_STEPS = 64; // Kernel table resolution per input sample
+const CUTOFF_MARGIN = 0.92; // Keep the passband slightly below Nyquist to leave room for the transition band
+
+const blackman = (x) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate = 16000, frameSize = 1600 } = (options && options.processorOptions) || {};
+
+    // Input samples advanced per output sample
+    this.step = sampleRate / targetSampleRate;
+    this.passthrough = Math.abs(this.step - 1) < 1e-9;
+
+    // Downsampling needs the cutoff at the *output* Nyquist, upsampling at the input one
+    this.cutoff = Math.min(1, 1 / this.step) * (this.passthrough ? 1 : CUTOFF_MARGIN);
+    this.halfWidth = Math.ceil(ZERO_CROSSINGS / this.cutoff);
+
+    const tableLength = this.halfWidth * TABLE_STEPS + 2;
+    this.kernel = new Float32Array(tableLength);
+    for (let i = 0; i < tableLength; i++) {
+      const x = i / TABLE_STEPS;
+      if (x >= this.halfWidth) break;
+      const arg = Math.PI * this.cutoff * x;
+      const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+      this.kernel[i] = this.cutoff * sinc * blackman(x / this.halfWidth);
+    }
+
+    // Sliding input history; `position` is the fractional index of the next output sample
+    this.history = new Float32Array(4096);
+    this.historyLength = 0;
+    this.position = this.halfWidth;
+
+    this.frameSize = frameSize;
+    this.frame = new Float32Array(frameSize);
+    this.frameLength = 0;
+  }
+
+  kernelAt(distance) {
+    const d = Math.abs(distance) * TABLE_STEPS;
+    const i = Math.floor(d);
+    if (i + 1 >= this.kernel.length) return 0;
+    const frac = d - i;
+    return this.kernel[i] + (this.kernel[i + 1] - this.kernel[i]) * frac;
+  }
+
+  append(input) {
+    if (this.historyLength + input.length > this.history.length) {
+      const grown = new Float32Array((this.historyLength + input.length) * 2);
+      grown.set(this.history.subarray(0, this.historyLength));
+      this.history = grown;
+    }
+    this.history.set(input, this.historyLength);
+    this.historyLength += input.length;
+  }
+
+  emit(sample) {
+    this.frame[this.frameLength++] = sample;
+    if (this.frameLength === this.frameSize) {
+      this.port.postMessage(this.frame, [this.frame.buffer]);
+      this.frame = new Float32Array(this.frameSize);
+      this.frameLength = 0;
+    }
+  }
+
+  resample() {
+    const history = this.history;
+    const halfWidth = this.halfWidth;
+
+    while (this.position + halfWidth < this.historyLength) {
+      const center = this.position;
+      const first = Math.max(0, Math.ceil(center - halfWidth));
+      const last = Math.floor(center + halfWidth);
+
+      let acc = 0;
+      let weight = 0;
+      for (let n = first; n <= last; n++) {
+        const w = this.kernelAt(center - n);
+        acc += history[n] * w;
+        weight += w;
+      }
+      // Normalize so DC gain is exactly 1 regardless of the fractional phase
+      this.emit(weight > 0 ? acc / weight : 0);
+      this.position += this.step;
+    }
+
+    // Drop history that no future output sample can reach
+    const keepFrom = Math.max(0, Math.floor(this.position - halfWidth) - 1);
+    if (keepFrom > 0) {
+      history.copyWithin(0, keepFrom, this.historyLength);
+      this.historyLength -= keepFrom;
+      this.position -= keepFrom;
+    }
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    if (this.passthrough) {
+      for (let i = 0; i < channel.length; i++) this.emit(channel[i]);
+    } else {
+      this.append(channel);
+      this.resample();
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
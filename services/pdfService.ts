@@ -1,4 +1,8 @@
-export const extractTextFromPDF = async (file: File): Promise<string> => {
+// Generous enough for a multi-page resume or job posting
+const MAX_PDF_PAGES = 10;
+const MAX_PDF_TEXT_CHARS = 30000;
+
+export const extractTextFromPDF = async (file: File, maxPages = MAX_PDF_PAGES): Promise<string> => {
   // pdfjsLib is loaded globally via script tag in index.html
   const pdfjsLib = (window as any).pdfjsLib;
   
@@ -14,30 +18,30 @@ export const extractTextFromPDF = async (file: File): Promise<string> => {
     const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
     const pdf = await loadingTask.promise;
     
-    let fullText = '';
-    // Limit to just the first 2 pages to avoid processing unnecessary data
-    const maxPages = Math.min(pdf.numPages, 2); 
-    
-    for (let i = 1; i <= maxPages; i++) {
+    const lines: string[] = [];
+    const pageCount = Math.min(pdf.numPages, maxPages);
+
+    for (let i = 1; i <= pageCount; i++) {
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-      fullText += pageText + ' ';
+      // Rebuild line breaks from pdf.js end-of-line flags so headings and bullets survive
+      let line = '';
+      for (const item of textContent.items as { str?: string; hasEOL?: boolean }[]) {
+        line += item.str ?? '';
+        if (item.hasEOL) {
+          lines.push(line);
+          line = '';
+        }
+      }
+      lines.push(line);
     }
-    
-    // AGGRESSIVE CLEANING: 
-    // 1. Remove anything that isn't a letter, number, space, or basic punctuation.
-    //    This strips out hidden control characters, emojis, bullets, and weird PDF encoding.
-    // 2. FLATTEN: Replace newlines with spaces to avoid protocol line-break issues
-    const cleaned = fullText
-        .replace(/[^a-zA-Z0-9\s.,?!@()-]/g, ' ') 
-        .replace(/\s+/g, ' ') // Collapse multiple spaces and newlines
-        .trim();
 
-    // Limit to 4000 chars for the preview/service layer (constants.ts limits further)
-    return cleaned.slice(0, 4000);
+    // Drop control characters only; accented names and non-Latin scripts are kept as-is
+    return lines
+      .map((l) => l.replace(/[\u0000-\u0008\u000B-\u001F\u007F]/g, ' ').replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, MAX_PDF_TEXT_CHARS);
   } catch (error) {
     console.error("PDF Extraction Error:", error);
     throw new Error("Failed to extract text from PDF. The file might be corrupted or password protected.");
@@ -0,0 +1,88 @@
+import type { FollowUpLevel, InterruptionTolerance, PersonaProfile } from '../types';
+import { BUILT_IN_PERSONAS, DEFAULT_AGENDA, INTERVIEWER_VOICES } from '../constants';
+
+const STORAGE_KEY = 'interview_flow_personas_v1';
+
+const FOLLOW_UP_LEVELS: FollowUpLevel[] = ['light', 'moderate', 'relentless'];
+const INTERRUPTION_TOLERANCES: InterruptionTolerance[] = ['patient', 'balanced', 'brisk'];
+
+export const createPersonaId = () => `persona-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Coerces untrusted JSON (storage or an imported file) into a persona, or null if unusable
+const toPersona = (value: unknown): PersonaProfile | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  const instructions = typeof data.instructions === 'string' ? data.instructions.trim() : '';
+  if (!name || !instructions) return null;
+
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : createPersonaId(),
+    name,
+    instructions,
+    voiceName: INTERVIEWER_VOICES.some((v) => v.name === data.voiceName) ? (data.voiceName as string) : INTERVIEWER_VOICES[0].name,
+    followUpLevel: FOLLOW_UP_LEVELS.includes(data.followUpLevel as FollowUpLevel) ? (data.followUpLevel as FollowUpLevel) : 'moderate',
+    interruptionTolerance: INTERRUPTION_TOLERANCES.includes(data.interruptionTolerance as InterruptionTolerance)
+      ? (data.interruptionTolerance as InterruptionTolerance)
+      : 'balanced',
+    skipStages: Array.isArray(data.skipStages)
+      ? DEFAULT_AGENDA.filter((stage) => (data.skipStages as unknown[]).includes(stage.id)).map((stage) => stage.id)
+      : undefined,
+  };
+};
+
+export const loadCustomPersonas = (): PersonaProfile[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const list = saved ? JSON.parse(saved) : [];
+    return Array.isArray(list) ? list.map(toPersona).filter((p): p is PersonaProfile => p !== null) : [];
+  } catch (e) {
+    console.warn('Failed to load personas', e);
+    return [];
+  }
+};
+
+export const saveCustomPersonas = (personas: PersonaProfile[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(personas.filter((p) => !p.builtIn)));
+};
+
+// Built-in presets first, then the user's own
+export const loadPersonas = (): PersonaProfile[] => [...BUILT_IN_PERSONAS, ...loadCustomPersonas()];
+
+// Falls back to the first preset so a deleted persona never breaks a saved config
+export const findPersona = (id: string, personas: PersonaProfile[] = loadPersonas()): PersonaProfile =>
+  personas.find((p) => p.id === id) ?? BUILT_IN_PERSONAS[0];
+
+export const duplicatePersona = (persona: PersonaProfile): PersonaProfile => ({
+  ...persona,
+  id: createPersonaId(),
+  name: `${persona.name} (Copy)`,
+  skipStages: persona.skipStages ? [...persona.skipStages] : undefined,
+  builtIn: undefined,
+});
+
+export const exportPersonasJson = (personas: PersonaProfile[]): string =>
+  JSON.stringify(
+    {
+      version: 1,
+      personas: personas.filter((p) => !p.builtIn).map(({ builtIn, ...persona }) => persona),
+    },
+    null,
+    2,
+  );
+
+/**
+ * Reads personas from an exported file (or a bare array / single persona). Imported
+ * personas always get fresh ids so they never overwrite presets or existing personas.
+ */
+export const parsePersonasJson = (text: string): PersonaProfile[] => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : Array.isArray(data?.personas) ? data.personas : [data];
+  const personas = list
+    .map(toPersona)
+    .filter((p: PersonaProfile | null): p is PersonaProfile => p !== null)
+    .map((p: PersonaProfile) => ({ ...p, id: createPersonaId() }));
+
+  if (personas.length === 0) throw new Error('No valid personas found. Each needs a name and instructions.');
+  return personas;
+};
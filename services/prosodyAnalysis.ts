@@ -0,0 +1,202 @@
+import type { AnswerProsody, ChatMessage, ConfidenceFeedback, ProsodyMetrics } from '../types';
+
+const VOICED_RMS = 0.01; // About -40 dBFS; quieter frames are treated as silence
+const CLIP_LEVEL = 0.99;
+const MIN_PITCH_HZ = 70;
+const MAX_PITCH_HZ = 400;
+const MIN_PERIODICITY = 0.5; // Normalized autocorrelation below this means no clear pitch
+
+const MIN_ANSWER_FRAMES = 10; // Answers with less voiced audio are not assessed
+const MONOTONE_SEMITONES = 2; // Pitch spread below this sounds flat
+const TRAILING_OFF_DB = 6; // Drop in level over the last fifth of an answer
+const TRAILING_SHARE = 0.2;
+const PHRASE_GAP_FRAMES = 3; // Unvoiced frames that end a phrase
+const MIN_PHRASE_FRAMES = 8;
+const PHRASE_END_FRAMES = 3;
+const UPTALK_SEMITONES = 2; // Rise at a phrase end over the phrase's median pitch
+const MIN_UPTALK_PHRASES = 2;
+const UPTALK_SHARE = 0.5;
+const CLIPPING_SHARE = 0.01; // Of voiced frames
+const QUIET_DB = -35; // Loud end (95th percentile) of the input below this is too quiet
+
+interface ProsodyFrame {
+  atMs: number;
+  db: number;
+  voiced: boolean;
+  pitchHz: number | null;
+  clipped: boolean;
+}
+
+const toDb = (rms: number) => 20 * Math.log10(Math.max(rms, 1e-6));
+const semitones = (hz: number, referenceHz: number) => 12 * Math.log2(hz / referenceHz);
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - m) ** 2)));
+};
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+};
+const median = (values: number[]) => percentile(values, 0.5);
+
+/**
+ * F0 by normalized autocorrelation. Takes the shortest lag that comes close to the best
+ * peak, which avoids reporting half the pitch on strongly periodic voices.
+ */
+const estimatePitch = (frame: Float32Array, sampleRate: number): number | null => {
+  const minLag = Math.floor(sampleRate / MAX_PITCH_HZ);
+  const maxLag = Math.ceil(sampleRate / MIN_PITCH_HZ);
+  const n = frame.length - maxLag;
+  if (n <= 0) return null;
+
+  const correlations: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    let energyA = 0;
+    let energyB = 0;
+    for (let i = 0; i < n; i++) {
+      sum += frame[i] * frame[i + lag];
+      energyA += frame[i] * frame[i];
+      energyB += frame[i + lag] * frame[i + lag];
+    }
+    correlations.push(energyA && energyB ? sum / Math.sqrt(energyA * energyB) : 0);
+  }
+
+  const best = Math.max(...correlations);
+  if (best < MIN_PERIODICITY) return null;
+  const index = correlations.findIndex(
+    (r, i) => r >= best * 0.9 && r >= (correlations[i - 1] ?? -1) && r >= (correlations[i + 1] ?? -1),
+  );
+  return sampleRate / (minLag + index);
+};
+
+// Consecutive voiced frames, split wherever the voice stops for a moment
+const splitPhrases = (frames: ProsodyFrame[]) => {
+  const phrases: ProsodyFrame[][] = [];
+  let current: ProsodyFrame[] = [];
+  let gap = 0;
+  for (const frame of frames) {
+    if (frame.voiced) {
+      current.push(frame);
+      gap = 0;
+    } else if (++gap === PHRASE_GAP_FRAMES && current.length) {
+      phrases.push(current);
+      current = [];
+    }
+  }
+  if (current.length) phrases.push(current);
+  return phrases;
+};
+
+// Share of assessable phrases whose last frames rise clearly above the phrase's median pitch
+const risingPhraseEnds = (frames: ProsodyFrame[]) => {
+  let assessed = 0;
+  let rising = 0;
+  for (const phrase of splitPhrases(frames)) {
+    const pitches = phrase.map((f) => f.pitchHz).filter((hz): hz is number => hz !== null);
+    const endPitches = phrase.slice(-PHRASE_END_FRAMES).map((f) => f.pitchHz).filter((hz): hz is number => hz !== null);
+    if (phrase.length < MIN_PHRASE_FRAMES || pitches.length < MIN_PHRASE_FRAMES / 2 || !endPitches.length) continue;
+    assessed++;
+    if (semitones(median(endPitches), median(pitches)) >= UPTALK_SEMITONES) rising++;
+  }
+  return { assessed, rising };
+};
+
+/**
+ * Tracks loudness and pitch of the candidate's microphone on the interview timeline and
+ * summarizes them per answer: pitch spread (monotone delivery), level fading at the end
+ * (trailing off) and rising phrase ends (uptalk), plus clipping and too-quiet input.
+ */
+export class ProsodyTracker {
+  private frames: ProsodyFrame[] = [];
+
+  // `atMs` is when the frame started, on the same timeline as the message timing
+  addFrame(frame: Float32Array, sampleRate: number, atMs: number) {
+    let sum = 0;
+    let clipped = false;
+    for (let i = 0; i < frame.length; i++) {
+      sum += frame[i] * frame[i];
+      if (Math.abs(frame[i]) >= CLIP_LEVEL) clipped = true;
+    }
+    const rms = Math.sqrt(sum / frame.length);
+    const voiced = rms >= VOICED_RMS;
+    this.frames.push({
+      atMs,
+      db: toDb(rms),
+      voiced,
+      pitchHz: voiced ? estimatePitch(frame, sampleRate) : null,
+      clipped,
+    });
+  }
+
+  private analyzeAnswer(frames: ProsodyFrame[], messageIndex: number): AnswerProsody | null {
+    const voiced = frames.filter((f) => f.voiced);
+    if (voiced.length < MIN_ANSWER_FRAMES) return null;
+
+    const levels = voiced.map((f) => f.db);
+    const pitches = voiced.map((f) => f.pitchHz).filter((hz): hz is number => hz !== null);
+    const pitchHz = pitches.length >= MIN_ANSWER_FRAMES ? median(pitches) : null;
+    const pitchVariation = pitchHz ? stdDev(pitches.map((hz) => semitones(hz, pitchHz))) : null;
+
+    const tailStart = Math.floor(voiced.length * (1 - TRAILING_SHARE));
+    const levelDrop = mean(levels.slice(0, tailStart)) - mean(levels.slice(tailStart));
+    const { assessed, rising } = risingPhraseEnds(frames);
+
+    return {
+      messageIndex,
+      loudnessDb: round(mean(levels)),
+      loudnessVariationDb: round(stdDev(levels)),
+      pitchHz: pitchHz === null ? null : Math.round(pitchHz),
+      pitchVariationSemitones: pitchVariation === null ? null : round(pitchVariation),
+      monotone: pitchVariation !== null && pitchVariation < MONOTONE_SEMITONES,
+      trailingOff: levelDrop >= TRAILING_OFF_DB,
+      uptalk: rising >= MIN_UPTALK_PHRASES && rising / assessed >= UPTALK_SHARE,
+    };
+  }
+
+  /** Per-answer and overall vocal metrics for the candidate's timed answers; null if the mic was never heard. */
+  summarize(messages: ChatMessage[]): ProsodyMetrics | null {
+    if (!this.frames.length) return null;
+
+    const answers = messages.flatMap((message, index) => {
+      if (message.role !== 'user' || message.startMs === undefined || message.endMs === undefined) return [];
+      const { startMs, endMs } = message;
+      const frames = this.frames.filter((f) => f.atMs >= startMs && f.atMs < endMs);
+      const answer = this.analyzeAnswer(frames, index);
+      return answer ? [answer] : [];
+    });
+
+    const voiced = this.frames.filter((f) => f.voiced);
+    const pitched = answers.filter((a) => a.pitchVariationSemitones !== null);
+    const clippingShare = voiced.length ? voiced.filter((f) => f.clipped).length / voiced.length : 0;
+
+    return {
+      answers,
+      loudnessDb: answers.length ? round(mean(answers.map((a) => a.loudnessDb))) : null,
+      loudnessVariationDb: answers.length ? round(mean(answers.map((a) => a.loudnessVariationDb))) : null,
+      pitchVariationSemitones: pitched.length ? round(mean(pitched.map((a) => a.pitchVariationSemitones as number))) : null,
+      monotoneAnswers: answers.filter((a) => a.monotone).length,
+      trailingOffAnswers: answers.filter((a) => a.trailingOff).length,
+      uptalkAnswers: answers.filter((a) => a.uptalk).length,
+      clippingPercent: round(clippingShare * 100),
+      clipping: clippingShare > CLIPPING_SHARE,
+      tooQuiet: percentile(this.frames.map((f) => f.db), 0.95) < QUIET_DB,
+    };
+  }
+
+  reset() {
+    this.frames = [];
+  }
+}
+
+// The model's confidence score shown beside the metrics; a missing score counts as 0
+export const toConfidenceFeedback = (reported: unknown): ConfidenceFeedback => {
+  const data = reported && typeof reported === 'object' ? (reported as Record<string, unknown>) : {};
+  return {
+    score: typeof data.score === 'number' ? Math.max(0, Math.min(10, data.score)) : 0,
+    comment: typeof data.comment === 'string' ? data.comment : '',
+  };
+};
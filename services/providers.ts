@@ -0,0 +1,85 @@
+import type { ImageAttachment, LiveTransport } from './liveTransport';
+import type { JsonSchema } from './feedbackSchema';
+import { GeminiLiveTransport } from './geminiLiveTransport';
+import { GeminiFeedbackProvider } from './geminiFeedbackProvider';
+import { ScriptedLiveTransport } from './scriptedLiveTransport';
+import { ScriptedFeedbackProvider } from './scriptedFeedbackProvider';
+import { OpenAICompatibleConversationProvider, OpenAICompatibleFeedbackProvider } from './openAICompatibleProvider';
+
+export type ProviderKind = 'gemini' | 'scripted' | 'openai';
+
+// Backend for the live interview conversation
+export interface ConversationProvider extends LiveTransport {
+  readonly name: string;
+  // False for text-only backends, which can only run interviews with typed answers
+  readonly supportsAudio: boolean;
+  // False for backends that cannot take a webcam stream; camera sharing is skipped for them
+  readonly supportsVideo: boolean;
+  // Synthesizes a short sample in the given voice. Returns base64 16-bit PCM @ 24kHz, mono.
+  previewVoice?(options: VoicePreviewOptions): Promise<string>;
+}
+
+export interface VoicePreviewOptions {
+  text: string;
+  voiceName: string;
+  speakingRate: number;
+}
+
+export interface FeedbackRequestOptions {
+  images?: ImageAttachment[]; // Attached after the prompt, e.g. the final whiteboard
+  schema?: JsonSchema; // Structured-output schema for backends that support one; replies are validated either way
+}
+
+// Backend for the post-interview analysis. Returns the model's raw text (expected to be JSON).
+export interface FeedbackProvider {
+  readonly name: string;
+  generateFeedback(prompt: string, options?: FeedbackRequestOptions): Promise<string>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_OPENAI_MODEL = 'llama3.1';
+
+const readKind = (value: string | undefined): ProviderKind => {
+  if (value === 'scripted' || value === 'openai') return value;
+  return 'gemini';
+};
+
+const openAIOptions = () => ({
+  baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+  model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+  apiKey: process.env.OPENAI_API_KEY,
+});
+
+const requireGeminiKey = (): string => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw new Error('API Key not found in environment');
+  return apiKey;
+};
+
+/**
+ * Picks the conversation backend from CONVERSATION_PROVIDER in .env.local:
+ * `gemini` (default, Live API), `scripted` (offline question script) or `openai`
+ * (any OpenAI-compatible chat endpoint, e.g. a local Ollama or LM Studio server).
+ */
+export const createConversationProvider = (): ConversationProvider => {
+  switch (readKind(process.env.CONVERSATION_PROVIDER)) {
+    case 'scripted':
+      return new ScriptedLiveTransport();
+    case 'openai':
+      return new OpenAICompatibleConversationProvider(openAIOptions());
+    default:
+      return new GeminiLiveTransport(requireGeminiKey());
+  }
+};
+
+// Same as above for FEEDBACK_PROVIDER, so analysis quality can be compared independently
+export const createFeedbackProvider = (): FeedbackProvider => {
+  switch (readKind(process.env.FEEDBACK_PROVIDER)) {
+    case 'scripted':
+      return new ScriptedFeedbackProvider();
+    case 'openai':
+      return new OpenAICompatibleFeedbackProvider(openAIOptions());
+    default:
+      return new GeminiFeedbackProvider(requireGeminiKey());
+  }
+};
@@ -0,0 +1,221 @@
+import type { BankQuestion, BankQuestionFeedback, QuestionBank, QuestionDifficulty } from '../types';
+
+const STORAGE_KEY = 'interview_flow_question_banks_v1';
+
+// Upper bound on questions put in front of the interviewer for one session
+export const MAX_SESSION_BANK_QUESTIONS = 12;
+
+const DIFFICULTIES: QuestionDifficulty[] = ['easy', 'medium', 'hard'];
+
+const readDifficulty = (value: unknown): QuestionDifficulty | undefined => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return DIFFICULTIES.find((d) => d === normalized);
+};
+
+const readTag = (value: unknown): string | undefined => {
+  const text = typeof value === 'string' ? value.trim() : '';
+  return text || undefined;
+};
+
+const makeQuestion = (text: string, fields: Record<string, unknown>, index: number): BankQuestion | null => {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (!clean) return null;
+  return {
+    id: `Q${index + 1}`,
+    text: clean,
+    role: readTag(fields.role),
+    difficulty: readDifficulty(fields.difficulty),
+    topic: readTag(fields.topic),
+  };
+};
+
+const numberQuestions = (questions: (BankQuestion | null)[]): BankQuestion[] =>
+  questions.filter((q): q is BankQuestion => q !== null).map((q, i) => ({ ...q, id: `Q${i + 1}` }));
+
+// JSON: an array of strings or { question | text, role, difficulty, topic }, optionally
+// wrapped as { name, questions: [...] }
+const parseJson = (text: string): { name?: string; questions: BankQuestion[] } => {
+  const data = JSON.parse(text);
+  const list = Array.isArray(data) ? data : data?.questions;
+  if (!Array.isArray(list)) throw new Error('Expected an array of questions or an object with a "questions" array.');
+
+  const questions = list.map((item: unknown, i: number) => {
+    if (typeof item === 'string') return makeQuestion(item, {}, i);
+    if (item && typeof item === 'object') {
+      const fields = item as Record<string, unknown>;
+      return makeQuestion(String(fields.question ?? fields.text ?? ''), fields, i);
+    }
+    return null;
+  });
+
+  return { name: typeof data?.name === 'string' ? data.name : undefined, questions: numberQuestions(questions) };
+};
+
+// RFC 4180-style rows: quoted fields may contain commas, newlines and "" escapes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+};
+
+// CSV: header row with a "question" (or "text") column and optional role, difficulty, topic
+const parseCsv = (text: string): { questions: BankQuestion[] } => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) throw new Error('The CSV file is empty.');
+
+  const columns = header.map((h) => h.trim().toLowerCase());
+  const questionColumn = columns.findIndex((c) => c === 'question' || c === 'text');
+  if (questionColumn < 0) throw new Error('The CSV needs a "question" column.');
+
+  const questions = rows.map((cells, i) => {
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, c) => (fields[column] = cells[c]));
+    return makeQuestion(cells[questionColumn] ?? '', fields, i);
+  });
+  return { questions: numberQuestions(questions) };
+};
+
+// Markdown: list items are questions, headings set the topic for the items below them,
+// and inline tags like "[difficulty: hard]" or "[role: Data Scientist]" override either
+const parseMarkdown = (text: string): { name?: string; questions: BankQuestion[] } => {
+  let name: string | undefined;
+  let topic: string | undefined;
+  const questions: (BankQuestion | null)[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = line.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      if (heading[1].length === 1 && !name) name = heading[2].trim();
+      else topic = heading[2].trim();
+      continue;
+    }
+
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.+)$/);
+    if (!item) continue;
+
+    const fields: Record<string, unknown> = { topic };
+    const body = item[1].replace(/\[(role|difficulty|topic):\s*([^\]]+)\]/gi, (_, key: string, value: string) => {
+      fields[key.toLowerCase()] = value;
+      return '';
+    });
+    questions.push(makeQuestion(body, fields, questions.length));
+  }
+
+  return { name, questions: numberQuestions(questions) };
+};
+
+/**
+ * Parses an imported question bank. The format is taken from the file extension:
+ * .json, .csv, or Markdown (.md/.markdown/.txt).
+ */
+export const parseQuestionBank = (fileName: string, text: string): QuestionBank => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const parsed =
+    extension === 'json' ? parseJson(text) : extension === 'csv' ? parseCsv(text) : parseMarkdown(text);
+
+  if (parsed.questions.length === 0) throw new Error('No questions found in this file.');
+
+  return {
+    id: `bank-${Date.now()}`,
+    name: ('name' in parsed && typeof parsed.name === 'string' && parsed.name) || fileName.replace(/\.[^.]+$/, ''),
+    questions: parsed.questions,
+    importedAt: Date.now(),
+  };
+};
+
+export const loadQuestionBanks = (): QuestionBank[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const banks = saved ? JSON.parse(saved) : [];
+    return Array.isArray(banks) ? banks.filter((b) => b && Array.isArray(b.questions)) : [];
+  } catch (e) {
+    console.warn('Failed to load question banks', e);
+    return [];
+  }
+};
+
+const saveQuestionBanks = (banks: QuestionBank[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(banks));
+};
+
+export const addQuestionBank = (bank: QuestionBank): QuestionBank[] => {
+  const banks = [...loadQuestionBanks(), bank];
+  saveQuestionBanks(banks);
+  return banks;
+};
+
+export const deleteQuestionBank = (id: string): QuestionBank[] => {
+  const banks = loadQuestionBanks().filter((b) => b.id !== id);
+  saveQuestionBanks(banks);
+  return banks;
+};
+
+// Questions tagged for another role are skipped; untagged ones suit every role
+const matchesRole = (question: BankQuestion, role: string) =>
+  !question.role || role.toLowerCase().includes(question.role.toLowerCase()) || question.role.toLowerCase().includes(role.toLowerCase());
+
+// Roles are matched by title, since custom role ids mean nothing to a bank author
+export const filterBankQuestions = (bank: QuestionBank, roleTitle: string, difficulty: QuestionDifficulty | 'any') =>
+  bank.questions.filter(
+    (q) => matchesRole(q, roleTitle) && (difficulty === 'any' || !q.difficulty || q.difficulty === difficulty),
+  );
+
+// A random draw from the matching questions, so repeat sessions do not replay the same set
+export const selectSessionQuestions = (bank: QuestionBank, roleTitle: string, difficulty: QuestionDifficulty | 'any'): BankQuestion[] => {
+  const pool = filterBankQuestions(bank, roleTitle, difficulty);
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, MAX_SESSION_BANK_QUESTIONS);
+};
+
+// Merges the model's coverage report with the questions that were put in front of it
+export const toBankQuestionFeedback = (questions: BankQuestion[], reported: unknown): BankQuestionFeedback[] => {
+  const entries = Array.isArray(reported) ? reported : [];
+  return questions.map((question) => {
+    const entry = entries.find((e) => e && typeof e === 'object' && e.id === question.id);
+    const asked = entry?.asked === true;
+    return {
+      id: question.id,
+      question: question.text,
+      topic: question.topic,
+      asked,
+      answerSummary: asked && typeof entry?.answerSummary === 'string' ? entry.answerSummary : '',
+      score: asked && typeof entry?.score === 'number' ? Math.max(0, Math.min(10, entry.score)) : undefined,
+    };
+  });
+};
@@ -0,0 +1,175 @@
+import type { ParsedResume, ResumeEntry } from '../types';
+import { extractTextFromPDF } from './pdfService';
+import { extractTextFromDocx } from './docxService';
+
+export const RESUME_FILE_ACCEPT = '.pdf,.docx,.txt,.md,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,text/plain';
+
+// Upper bounds so a long resume still yields a digest the prompt can afford
+const MAX_EXPERIENCE = 8;
+const MAX_EDUCATION = 4;
+const MAX_PROJECTS = 6;
+const MAX_DETAILS = 5;
+const MAX_SKILLS = 40;
+const MAX_LINE_CHARS = 220;
+const MAX_SUMMARY_CHARS = 600;
+
+type SectionKey = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'other';
+
+// Common headings, including a few non-English ones now that Unicode survives extraction
+const SECTION_HEADINGS: { key: SectionKey; pattern: RegExp }[] = [
+  { key: 'summary', pattern: /^(?:professional |career )?(?:summary|profile|about(?: me)?|objective)$|^(?:profil|résumé|kurzprofil|perfil)$/i },
+  {
+    key: 'experience',
+    pattern:
+      /^(?:(?:work|professional|relevant) )?experience$|^(?:employment|work|career)(?: history)?$|^(?:berufserfahrung|erfahrung|expérience(?:s)? professionnelle(?:s)?|experiencia(?: laboral)?)$/i,
+  },
+  { key: 'education', pattern: /^education(?: (?:and|&) training)?$|^academic background$|^(?:ausbildung|formation|educación|formación)$/i },
+  {
+    key: 'skills',
+    pattern: /^(?:(?:technical|key|core) )?(?:skills|competencies|technologies)(?: (?:and|&) (?:tools|technologies))?$|^(?:kenntnisse|compétences|habilidades)$/i,
+  },
+  { key: 'projects', pattern: /^(?:(?:personal|selected|side|key) )?projects$|^open source$|^(?:projekte|projets|proyectos)$/i },
+  {
+    key: 'other',
+    pattern: /^(?:certifications?|awards|honou?rs|publications|volunteer(?:ing)?(?: experience)?|interests|hobbies|languages|references|activities)$/i,
+  },
+];
+
+const BULLET = /^\s*[•●▪◦‣∙·*–—-]\s*/;
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE_RANGE = new RegExp(
+  `(?:${MONTH}\\s+)?(?:\\d{1,2}/)?\\d{4}\\s*(?:-|–|—|to|bis|à)\\s*(?:(?:${MONTH}\\s+)?(?:\\d{1,2}/)?\\d{4}|present|current|now|today|heute)`,
+  'i',
+);
+const SINGLE_DATE = new RegExp(`(?:${MONTH}\\s+)?\\b(?:19|20)\\d{2}\\b`, 'i');
+const EMAIL = /[^\s@]+@[^\s@]+\.[^\s@]+/;
+const PHONE = /\+?\d[\d\s().-]{7,}\d/;
+const LINK = /\b(?:https?:\/\/\S+|(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com)\/\S+)/i;
+
+const clip = (text: string, max = MAX_LINE_CHARS) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+const toHeading = (line: string): SectionKey | null => {
+  const normalized = line.replace(/[:：]\s*$/, '').replace(/\s+/g, ' ').trim();
+  if (normalized.length > 40) return null;
+  return SECTION_HEADINGS.find((h) => h.pattern.test(normalized))?.key ?? null;
+};
+
+const stripDates = (line: string): { text: string; dates?: string } => {
+  const match = line.match(DATE_RANGE) ?? line.match(SINGLE_DATE);
+  if (!match) return { text: line };
+  const text = line.replace(match[0], '').replace(/[\s|,·–—-]+$/, '').replace(/^[\s|,·–—-]+/, '').replace(/\s{2,}/g, ' ');
+  return { text, dates: match[0].trim() };
+};
+
+/**
+ * Groups the lines of an experience-like section into entries. A non-bullet line opens a
+ * new entry once the current one has details; before that it fills in the subheading
+ * (company, school) and dates. Long plain lines are treated as prose details.
+ */
+const toEntries = (lines: string[], limit: number): ResumeEntry[] => {
+  const entries: ResumeEntry[] = [];
+  let current: ResumeEntry | null = null;
+
+  for (const line of lines) {
+    const isBullet = BULLET.test(line);
+    const text = line.replace(BULLET, '').trim();
+    if (!text) continue;
+
+    if (current && (isBullet || text.length > 90)) {
+      if (current.details.length < MAX_DETAILS) current.details.push(clip(text));
+      continue;
+    }
+
+    const { text: rest, dates } = stripDates(text);
+    if (!current || current.details.length > 0) {
+      if (entries.length >= limit) break;
+      current = { heading: clip(rest || text, 120), dates, details: [] };
+      entries.push(current);
+    } else if (dates && !current.dates) {
+      current.dates = dates;
+      if (rest && !current.subheading) current.subheading = clip(rest, 120);
+    } else if (!current.subheading) {
+      current.subheading = clip(text, 120);
+    } else if (current.details.length < MAX_DETAILS) {
+      current.details.push(clip(text));
+    }
+  }
+  return entries;
+};
+
+const toSkills = (lines: string[]): string[] => {
+  const skills: string[] = [];
+  for (const line of lines) {
+    // "Languages: Go, Rust" style lines lose the label, the items are what matter
+    const items = line.replace(BULLET, '').replace(/^[^:：,]{1,30}[:：]\s*/, '').split(/\s*[,;|•·]\s*/);
+    for (const item of items) {
+      const skill = item.trim().replace(/\.$/, '');
+      if (skill && skill.length <= 60 && skills.length < MAX_SKILLS && !skills.includes(skill)) skills.push(skill);
+    }
+  }
+  return skills;
+};
+
+/**
+ * Segments resume text into contact details, summary, experience, education, skills and
+ * projects. Works on the line structure produced by the PDF, DOCX and text extractors;
+ * when no section headings are recognised the opening text becomes the summary.
+ */
+export const parseResume = (text: string): ParsedResume => {
+  const lines = text.split(/\r?\n/).map((line) => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  const sections: Record<SectionKey, string[]> = { summary: [], experience: [], education: [], skills: [], projects: [], other: [] };
+  const header: string[] = [];
+  let section: SectionKey | null = null;
+
+  for (const line of lines) {
+    const heading = toHeading(line);
+    if (heading) section = heading;
+    else if (section) sections[section].push(line);
+    else header.push(line);
+  }
+
+  const contact: string[] = [];
+  const headerText: string[] = [];
+  for (const line of header) {
+    const found = [line.match(EMAIL)?.[0], line.match(PHONE)?.[0], line.match(LINK)?.[0]].filter((v): v is string => !!v);
+    if (found.length) contact.push(...found);
+    else headerText.push(line);
+  }
+
+  // The first short header line is almost always the candidate's name
+  const first = headerText[0];
+  const name = lines.length > 1 && first && first.length <= 60 && !/[.!?]$/.test(first) && !SINGLE_DATE.test(first) ? first : undefined;
+  const foundSections = Object.values(sections).some((s) => s.length > 0);
+  const summarySource = sections.summary.length
+    ? sections.summary
+    : foundSections
+      ? headerText.slice(name ? 1 : 0)
+      : lines.slice(name ? 1 : 0);
+
+  return {
+    name,
+    contact: [...new Set(contact)],
+    summary: clip(summarySource.join(' '), foundSections ? MAX_SUMMARY_CHARS : MAX_SUMMARY_CHARS * 3),
+    experience: toEntries(sections.experience, MAX_EXPERIENCE),
+    education: toEntries(sections.education, MAX_EDUCATION),
+    skills: toSkills(sections.skills),
+    projects: toEntries(sections.projects, MAX_PROJECTS),
+  };
+};
+
+// A file type the resume reader cannot handle; the message is meant for the user
+export class UnsupportedFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFileError';
+  }
+}
+
+// Reads a resume file into plain text, keeping line breaks and Unicode
+export const extractResumeText = async (file: File): Promise<string> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (file.type === 'application/pdf' || extension === 'pdf') return extractTextFromPDF(file);
+  if (extension === 'docx') return extractTextFromDocx(file);
+  if (extension === 'txt' || extension === 'md' || file.type.startsWith('text/')) return (await file.text()).trim();
+  throw new UnsupportedFileError('Unsupported file type. Please upload a PDF, DOCX or TXT resume.');
+};
@@ -0,0 +1,102 @@
+import type { Competency, CompetencyScore, RoleDefinition } from '../types';
+import { BUILT_IN_ROLES } from '../constants';
+
+const STORAGE_KEY = 'interview_flow_roles_v1';
+
+export const MIN_COMPETENCIES = 3;
+export const MAX_COMPETENCIES = 8;
+
+export const createRoleId = () => `role-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Ids are used as JSON keys in the feedback prompt, so keep them short and plain
+export const toCompetencyId = (name: string, taken: string[]): string => {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+      .slice(0, 30) || 'competency';
+  let id = base;
+  for (let n = 2; taken.includes(id); n++) id = `${base}${n}`;
+  return id;
+};
+
+const toCompetency = (value: unknown): Omit<Competency, 'id'> | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!name) return null;
+  const weight = typeof data.weight === 'number' ? Math.round(data.weight) : 3;
+  return {
+    name,
+    description: typeof data.description === 'string' ? data.description.trim() : '',
+    weight: Math.max(1, Math.min(5, weight)),
+  };
+};
+
+// Coerces stored JSON into a role, or null if unusable. Competency ids are regenerated
+// from the names so they stay unique.
+const toRole = (value: unknown): RoleDefinition | null => {
+  if (!value || typeof value !== 'object') return null;
+  const data = value as Record<string, unknown>;
+  const title = typeof data.title === 'string' ? data.title.trim() : '';
+  const parsed = Array.isArray(data.competencies) ? data.competencies.map(toCompetency) : [];
+  const competencies: Competency[] = [];
+  for (const c of parsed) {
+    if (c && competencies.length < MAX_COMPETENCIES) {
+      competencies.push({ ...c, id: toCompetencyId(c.name, competencies.map((x) => x.id)) });
+    }
+  }
+  if (!title || competencies.length < MIN_COMPETENCIES) return null;
+
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : createRoleId(),
+    title,
+    competencies,
+    focusAreas: Array.isArray(data.focusAreas)
+      ? data.focusAreas.filter((f): f is string => typeof f === 'string' && f.trim().length > 0).map((f) => f.trim())
+      : [],
+    codingInterview: data.codingInterview === true || undefined,
+  };
+};
+
+export const loadCustomRoles = (): RoleDefinition[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const list = saved ? JSON.parse(saved) : [];
+    return Array.isArray(list) ? list.map(toRole).filter((r): r is RoleDefinition => r !== null) : [];
+  } catch (e) {
+    console.warn('Failed to load roles', e);
+    return [];
+  }
+};
+
+export const saveCustomRoles = (roles: RoleDefinition[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(roles.filter((r) => !r.builtIn)));
+};
+
+// Built-in presets first, then the user's own
+export const loadRoles = (): RoleDefinition[] => [...BUILT_IN_ROLES, ...loadCustomRoles()];
+
+// Falls back to the first preset so a deleted role never breaks a saved config
+export const findRole = (id: string, roles: RoleDefinition[] = loadRoles()): RoleDefinition =>
+  roles.find((r) => r.id === id) ?? BUILT_IN_ROLES[0];
+
+export const duplicateRole = (role: RoleDefinition): RoleDefinition => ({
+  ...role,
+  id: createRoleId(),
+  title: `${role.title} (Copy)`,
+  competencies: role.competencies.map((c) => ({ ...c })),
+  focusAreas: [...role.focusAreas],
+  builtIn: undefined,
+});
+
+// Maps the model's scores onto the rubric. Validation requires every rubric id, so only the
+// no-conversation fallback (reported = null) fills in 0s.
+export const toCompetencyScores = (role: RoleDefinition, reported: unknown): CompetencyScore[] => {
+  const scores = reported && typeof reported === 'object' ? (reported as Record<string, unknown>) : {};
+  return role.competencies.map(({ id, name, weight }) => {
+    const score = scores[id];
+    return { id, name, weight, score: typeof score === 'number' ? Math.max(0, Math.min(10, score)) : 0 };
+  });
+};
@@ -0,0 +1,88 @@
+import type { FeedbackProvider, FeedbackRequestOptions } from './providers';
+import type { JsonSchema } from './feedbackSchema';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+// The allowed ids of a list section in the response schema, e.g. the bank question ids
+const schemaIds = (schema: JsonSchema | undefined, key: string) => schema?.properties?.[key]?.items?.properties?.id?.enum ?? [];
+
+/**
+ * Offline stand-in for the analysis model. Derives rough, deterministic scores from how
+ * much the candidate said, so the feedback screen can be exercised without any backend.
+ */
+export class ScriptedFeedbackProvider implements FeedbackProvider {
+  readonly name = 'Scripted';
+
+  async generateFeedback(prompt: string, { schema }: FeedbackRequestOptions = {}): Promise<string> {
+    const transcript = prompt.split('TRANSCRIPT:').pop() || '';
+    const lines = transcript.split('\n');
+    const answers = lines
+      .filter((line) => line.startsWith('Candidate:'))
+      .map((line) => line.slice('Candidate:'.length).trim())
+      .filter(Boolean);
+
+    // Same heuristic per agenda stage, using the stage markers in the transcript
+    const stages: { id: string; answers: number }[] = [];
+    for (const line of lines) {
+      const marker = line.match(/^--- STAGE (\S+): /);
+      if (marker) stages.push({ id: marker[1], answers: 0 });
+      else if (line.startsWith('Candidate:') && line.slice('Candidate:'.length).trim() && stages.length) {
+        stages[stages.length - 1].answers++;
+      }
+    }
+
+    // Score whichever rubric the prompt asks for
+    const keys = prompt.match(/^Use exactly these competency keys: (.+)$/m)?.[1].split(',').map((key) => key.trim()) ?? [];
+
+    // Numbered question/answer pairs, when the prompt lists them
+    const pairs = [...prompt.matchAll(/^A(\d+): (.+)$/gm)].map((match) => ({ id: Number(match[1]), answer: match[2] }));
+
+    const words = answers.reduce((total, answer) => total + answer.split(/\s+/).length, 0);
+    const avgWords = answers.length ? words / answers.length : 0;
+
+    // More, fuller answers score higher; this is a placeholder, not an assessment
+    const base = clamp(Math.round(3 + answers.length * 0.5 + avgWords / 20), 0, 10);
+
+    return JSON.stringify({
+      score: base * 10,
+      summary: `Scripted analysis of ${answers.length} answers (${words} words). Connect a real feedback provider for an actual assessment.`,
+      strengths: ['Completed the practice session', 'Answered the scripted questions', 'Kept the conversation going'],
+      improvements: ['Add concrete examples', 'Quantify your impact', 'Structure answers with the STAR method'],
+      competencies: Object.fromEntries(keys.map((key) => [key, base])),
+      codeQuality: prompt.includes('"codeQuality"')
+        ? { score: base, correctness: base, readability: base, efficiency: base, comment: 'Scripted placeholder; the code was not reviewed.' }
+        : undefined,
+      // Quotes the opening words of each answer so the evidence links can be tried out
+      answers: pairs.map(({ id, answer }) => {
+        const score = clamp(Math.round(3 + answer.split(/\s+/).length / 20), 0, 10);
+        return {
+          id,
+          score,
+          relevance: score,
+          depth: score,
+          clarity: score,
+          critique: 'Scripted placeholder; the answer was not reviewed.',
+          evidence: [{ quote: answer.split(/\s+/).slice(0, 6).join(' '), kind: 'strength' }],
+        };
+      }),
+      whiteboard: prompt.includes('"whiteboard"')
+        ? { score: base, comment: 'Scripted placeholder; the diagram was not reviewed.' }
+        : undefined,
+      vocalConfidence: prompt.includes('"vocalConfidence"')
+        ? { score: base, comment: 'Scripted placeholder; the voice was not reviewed.' }
+        : undefined,
+      // Mixed-language sessions ask for a coaching block as well
+      languageFeedback: prompt.includes('"languageFeedback"')
+        ? { fluency: base, grammar: base, vocabulary: base, nativeLanguageSwitches: 0, corrections: [], tips: ['Practice answering out loud in the interview language'] }
+        : undefined,
+      // Nothing is assessed here, so every bank question and requirement is reported as untouched
+      bankQuestions: schemaIds(schema, 'bankQuestions').map((id) => ({ id, asked: false, answerSummary: '', score: 0 })),
+      jobFit: schemaIds(schema, 'jobFit').map((id) => ({ id, status: 'untested', evidence: '' })),
+      stages: stages.map((stage) => ({
+        id: stage.id,
+        score: clamp(3 + stage.answers * 2, 0, 10),
+        comment: `${stage.answers} answer${stage.answers === 1 ? '' : 's'} in this stage.`,
+      })),
+    });
+  }
+}
@@ -0,0 +1,111 @@
+import { base64ToUint8Array } from './audioService';
+import type { AudioChunk, LiveConnection, LiveTransportCallbacks, LiveTransportConfig } from './liveTransport';
+import type { ConversationProvider } from './providers';
+
+const DEFAULT_SCRIPT = [
+  "Hi, thanks for joining today. I'll be your interviewer. Could you start by telling me a bit about yourself?",
+  'Thanks. Tell me about a recent project you are proud of and what your role was.',
+  'What was the hardest problem you ran into on that project, and how did you solve it?',
+  'How do you handle disagreements with teammates about technical decisions?',
+  'Great. Do you have any questions for me before we wrap up?',
+];
+
+const CLOSING_LINE = "That's everything I wanted to cover. Thanks for your time today.";
+
+// Simple energy based voice activity detection on the outgoing PCM stream
+const SPEECH_RMS_THRESHOLD = 0.02;
+const END_OF_TURN_SILENCE_MS = 1200;
+
+const chunkRms = (chunk: AudioChunk): number => {
+  const bytes = base64ToUint8Array(chunk.data);
+  const samples = new Int16Array(bytes.buffer, 0, Math.floor(bytes.byteLength / 2));
+  if (samples.length === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i] / 32768;
+    sum += s * s;
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
+/**
+ * Offline stand-in for the Live API. Plays a fixed list of interviewer questions as
+ * text-only turns and uses microphone energy (or a typed answer) to decide when the
+ * candidate has finished answering. No audio is produced, so the app can be developed
+ * and tested without a key.
+ */
+export class ScriptedLiveTransport implements ConversationProvider {
+  readonly name = 'Scripted';
+  readonly supportsAudio = true;
+  readonly supportsVideo = false;
+
+  constructor(private script: string[] = DEFAULT_SCRIPT) {}
+
+  async connect(config: LiveTransportConfig, callbacks: LiveTransportCallbacks): Promise<LiveConnection> {
+    const endOfTurnSilenceMs = config.endOfTurnSilenceMs ?? END_OF_TURN_SILENCE_MS;
+    let closed = false;
+    let questionIndex = 0;
+    let answerCount = 0;
+    let isSpeaking = false;
+    let lastSpeechTime = 0;
+    let endOfTurnTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const askNextQuestion = () => {
+      if (closed) return;
+      const line = this.script[questionIndex++] ?? CLOSING_LINE;
+      callbacks.onMessage({ outputTranscription: line });
+      callbacks.onMessage({ turnComplete: true });
+    };
+
+    const finishAnswer = () => {
+      endOfTurnTimer = null;
+      if (closed || !isSpeaking) return;
+      if (Date.now() - lastSpeechTime < endOfTurnSilenceMs) {
+        endOfTurnTimer = setTimeout(finishAnswer, endOfTurnSilenceMs);
+        return;
+      }
+      isSpeaking = false;
+      answerCount++;
+      callbacks.onMessage({ inputTranscription: `[Candidate answer ${answerCount}]` });
+      askNextQuestion();
+    };
+
+    setTimeout(() => {
+      if (closed) return;
+      callbacks.onOpen();
+      askNextQuestion();
+    }, 0);
+
+    return {
+      sendAudio: (chunk) => {
+        if (closed) return;
+        if (chunkRms(chunk) < SPEECH_RMS_THRESHOLD) return;
+
+        isSpeaking = true;
+        lastSpeechTime = Date.now();
+        if (!endOfTurnTimer) {
+          endOfTurnTimer = setTimeout(finishAnswer, endOfTurnSilenceMs);
+        }
+      },
+      sendText: () => {
+        if (closed) return;
+        answerCount++;
+        askNextQuestion();
+      },
+      // The script cannot follow directions: it keeps its own order through stage changes and
+      // skips to the last question on the wrap-up cue
+      sendInstruction: (_text, kind) => {
+        if (kind === 'wrapUp') questionIndex = Math.max(questionIndex, this.script.length - 1);
+      },
+      // Nothing to review with; the script carries on regardless
+      sendContext: () => {},
+      sendImage: () => {},
+      sendVideoFrame: () => {},
+      close: () => {
+        closed = true;
+        if (endOfTurnTimer) clearTimeout(endOfTurnTimer);
+      },
+    };
+  }
+}
@@ -0,0 +1,44 @@
+// Interview stopwatch that excludes paused time. Duration and pace metrics should
+// always be derived from elapsedMs() rather than wall clock timestamps.
+export class SessionClock {
+  private startedAt: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedTotal = 0;
+
+  start(now: number = Date.now()) {
+    this.startedAt = now;
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+  }
+
+  isRunning() {
+    return this.startedAt !== null;
+  }
+
+  isPaused() {
+    return this.pausedAt !== null;
+  }
+
+  pause(now: number = Date.now()) {
+    if (this.startedAt === null || this.pausedAt !== null) return;
+    this.pausedAt = now;
+  }
+
+  resume(now: number = Date.now()) {
+    if (this.pausedAt === null) return;
+    this.pausedTotal += now - this.pausedAt;
+    this.pausedAt = null;
+  }
+
+  elapsedMs(now: number = Date.now()): number {
+    if (this.startedAt === null) return 0;
+    const end = this.pausedAt ?? now;
+    return Math.max(0, end - this.startedAt - this.pausedTotal);
+  }
+
+  reset() {
+    this.startedAt = null;
+    this.pausedAt = null;
+    this.pausedTotal = 0;
+  }
+}
@@ -0,0 +1,139 @@
+import type { ChatMessage } from '../types';
+import type { SessionRecorder } from './sessionRecorder';
+
+const speakerLabel = (message: ChatMessage) => (message.role === 'user' ? 'Candidate' : 'Interviewer');
+
+// Messages with text and timing, in timeline order
+const timedMessages = (messages: ChatMessage[]) =>
+  messages
+    .filter((m) => m.text.trim() && m.startMs !== undefined)
+    .sort((a, b) => (a.startMs ?? 0) - (b.startMs ?? 0));
+
+const formatTimestamp = (ms: number, separator: '.' | ',') => {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+};
+
+// Cues need a visible duration even for instant events like typed answers
+const cueEnd = (message: ChatMessage) => Math.max(message.endMs ?? 0, (message.startMs ?? 0) + 1000);
+
+export const toWebVTT = (messages: ChatMessage[]): string => {
+  const cues = timedMessages(messages).map(
+    (m) =>
+      `${formatTimestamp(m.startMs!, '.')} --> ${formatTimestamp(cueEnd(m), '.')}\n<v ${speakerLabel(m)}>${m.text.trim()}`,
+  );
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+export const toSRT = (messages: ChatMessage[]): string =>
+  timedMessages(messages)
+    .map(
+      (m, i) =>
+        `${i + 1}\n${formatTimestamp(m.startMs!, ',')} --> ${formatTimestamp(cueEnd(m), ',')}\n${speakerLabel(m)}: ${m.text.trim()}`,
+    )
+    .join('\n\n') + '\n';
+
+// --- Minimal ZIP writer (STORE only, no compression; WAV does not compress well anyway) ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 0, true); // Method: store
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.data.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true); // Version made by
+    header.setUint16(6, 20, true); // Version needed
+    header.setUint16(10, 0, true); // Method: store
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.data.length, true);
+    header.setUint32(24, entry.data.length, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.data.length;
+  }
+
+  const centralSize = central.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+/**
+ * Bundles the interview recording (mixed track plus one stem per speaker) with the
+ * transcript as WebVTT, SRT and plain text.
+ */
+export const createSessionBundle = (recorder: SessionRecorder, messages: ChatMessage[]): Blob => {
+  const encoder = new TextEncoder();
+  const plainText = timedMessages(messages)
+    .map((m) => `[${formatTimestamp(m.startMs!, '.')}] ${speakerLabel(m)}: ${m.text.trim()}`)
+    .join('\n');
+
+  return createZip([
+    { name: 'interview.wav', data: recorder.exportMixedWav() },
+    { name: 'candidate.wav', data: recorder.exportCandidateWav() },
+    { name: 'interviewer.wav', data: recorder.exportInterviewerWav() },
+    { name: 'transcript.vtt', data: encoder.encode(toWebVTT(messages)) },
+    { name: 'transcript.srt', data: encoder.encode(toSRT(messages)) },
+    { name: 'transcript.txt', data: encoder.encode(plainText + '\n') },
+  ]);
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
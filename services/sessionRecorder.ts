@@ -0,0 +1,242 @@
+import { encodeWav } from './audioService';
+
+export const CANDIDATE_STEM_RATE = 16000;
+export const INTERVIEWER_STEM_RATE = 24000;
+export const MIX_SAMPLE_RATE = 24000;
+
+const CHUNK_SECONDS = 10;
+const SPEECH_RMS_THRESHOLD = 0.02; // Frames louder than this count as candidate speech
+const MAX_MIC_DRIFT_MS = 250; // Resync the mic cursor to the clock past this much drift
+const SPEECH_GAP_MS = 300; // Speech closer together than this is one stretch of talking
+
+export interface TimedSpan {
+  startMs: number;
+  endMs: number;
+}
+
+export interface TurnTiming {
+  user: TimedSpan;
+  model: TimedSpan;
+}
+
+// Stretches of audible speech per side, in timeline order
+export interface SpeechActivity {
+  candidate: TimedSpan[];
+  interviewer: TimedSpan[];
+}
+
+/**
+ * Sparse 16-bit mono track stored in fixed-size chunks, so a long interview never needs
+ * one huge reallocation and gaps (pauses, silence) cost nothing until export.
+ */
+class PcmTrack {
+  private chunks: Int16Array[] = [];
+  private chunkSize: number;
+  length = 0; // In samples
+
+  constructor(readonly sampleRate: number) {
+    this.chunkSize = sampleRate * CHUNK_SECONDS;
+  }
+
+  write(samples: Float32Array, atSample: number) {
+    for (let i = 0; i < samples.length; i++) {
+      const index = atSample + i;
+      if (index < 0) continue;
+      const chunkIndex = Math.floor(index / this.chunkSize);
+      const chunk = (this.chunks[chunkIndex] ??= new Int16Array(this.chunkSize));
+      const s = Math.max(-1, Math.min(1, samples[i]));
+      chunk[index % this.chunkSize] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    }
+    this.length = Math.max(this.length, atSample + samples.length);
+  }
+
+  // Silence everything from `atSample` on (audio that was scheduled but never played)
+  truncate(atSample: number) {
+    if (atSample >= this.length) return;
+    const from = Math.max(0, atSample);
+    for (let index = from; index < this.length; ) {
+      const chunkIndex = Math.floor(index / this.chunkSize);
+      const offset = index % this.chunkSize;
+      this.chunks[chunkIndex]?.fill(0, offset);
+      index += this.chunkSize - offset;
+    }
+    this.length = from;
+  }
+
+  toInt16(length: number = this.length): Int16Array {
+    const out = new Int16Array(length);
+    for (let chunkIndex = 0; chunkIndex * this.chunkSize < length; chunkIndex++) {
+      const chunk = this.chunks[chunkIndex];
+      if (!chunk) continue;
+      const start = chunkIndex * this.chunkSize;
+      out.set(chunk.subarray(0, Math.min(this.chunkSize, length - start)), start);
+    }
+    return out;
+  }
+
+  reset() {
+    this.chunks = [];
+    this.length = 0;
+  }
+}
+
+const msToSamples = (ms: number, sampleRate: number) => Math.round((ms / 1000) * sampleRate);
+
+const extendSpan = (span: TimedSpan | null, startMs: number, endMs: number): TimedSpan =>
+  span ? { startMs: Math.min(span.startMs, startMs), endMs: Math.max(span.endMs, endMs) } : { startMs, endMs };
+
+// Extends the last stretch when the new audio follows it closely, otherwise starts a new one
+const appendSpeech = (spans: TimedSpan[], startMs: number, endMs: number) => {
+  const last = spans[spans.length - 1];
+  if (last && startMs - last.endMs <= SPEECH_GAP_MS) last.endMs = Math.max(last.endMs, endMs);
+  else spans.push({ startMs, endMs });
+};
+
+/**
+ * Records both sides of the interview on a shared timeline (milliseconds of active
+ * interview time, see SessionClock) and tracks when each side spoke, so every transcript
+ * message can be timestamped. Candidate audio is kept at 16kHz and interviewer audio at
+ * 24kHz, matching what the Live API exchanges.
+ */
+export class SessionRecorder {
+  private candidate = new PcmTrack(CANDIDATE_STEM_RATE);
+  private interviewer = new PcmTrack(INTERVIEWER_STEM_RATE);
+  private recording = false;
+  private micCursor = 0; // Next candidate sample index
+
+  private userSpan: TimedSpan | null = null;
+  private modelSpan: TimedSpan | null = null;
+  private activity: SpeechActivity = { candidate: [], interviewer: [] };
+
+  start() {
+    this.reset();
+    this.recording = true;
+  }
+
+  stop() {
+    this.recording = false;
+  }
+
+  isRecording() {
+    return this.recording;
+  }
+
+  hasAudio() {
+    return this.candidate.length > 0 || this.interviewer.length > 0;
+  }
+
+  durationMs() {
+    return Math.max(
+      (this.candidate.length / CANDIDATE_STEM_RATE) * 1000,
+      (this.interviewer.length / INTERVIEWER_STEM_RATE) * 1000,
+    );
+  }
+
+  // `atMs` is when the frame started. Frames are written back to back and only
+  // resynced to the clock when they drift, which avoids clicks from arrival jitter.
+  addCandidateFrame(frame: Float32Array, atMs: number) {
+    if (!this.recording) return;
+
+    const expected = msToSamples(atMs, CANDIDATE_STEM_RATE);
+    if (Math.abs(expected - this.micCursor) > msToSamples(MAX_MIC_DRIFT_MS, CANDIDATE_STEM_RATE)) {
+      this.micCursor = expected;
+    }
+
+    const startMs = (this.micCursor / CANDIDATE_STEM_RATE) * 1000;
+    this.candidate.write(frame, this.micCursor);
+    this.micCursor += frame.length;
+
+    let sum = 0;
+    for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+    if (Math.sqrt(sum / frame.length) > SPEECH_RMS_THRESHOLD) {
+      const endMs = (this.micCursor / CANDIDATE_STEM_RATE) * 1000;
+      this.userSpan = extendSpan(this.userSpan, startMs, endMs);
+      appendSpeech(this.activity.candidate, startMs, endMs);
+    }
+  }
+
+  // Typed answers have no audio; mark the moment they were sent instead
+  markCandidateText(atMs: number) {
+    if (!this.recording) return;
+    this.userSpan = extendSpan(this.userSpan, atMs, atMs);
+  }
+
+  // `atMs` is when playback of the chunk is scheduled to start
+  addInterviewerAudio(samples: Float32Array, atMs: number) {
+    if (!this.recording) return;
+    const endMs = atMs + (samples.length / INTERVIEWER_STEM_RATE) * 1000;
+    this.interviewer.write(samples, msToSamples(atMs, INTERVIEWER_STEM_RATE));
+    this.modelSpan = extendSpan(this.modelSpan, atMs, endMs);
+    appendSpeech(this.activity.interviewer, atMs, endMs);
+  }
+
+  // Interruption: drop interviewer audio that was queued but never heard
+  truncateInterviewer(atMs: number) {
+    if (!this.recording) return;
+    this.interviewer.truncate(msToSamples(atMs, INTERVIEWER_STEM_RATE));
+    if (this.modelSpan && this.modelSpan.endMs > atMs) {
+      this.modelSpan = { startMs: this.modelSpan.startMs, endMs: Math.max(this.modelSpan.startMs, atMs) };
+    }
+    this.activity.interviewer = this.activity.interviewer
+      .filter((span) => span.startMs < atMs)
+      .map((span) => ({ startMs: span.startMs, endMs: Math.min(span.endMs, atMs) }));
+  }
+
+  /**
+   * Returns when the candidate and the interviewer spoke since the previous call and
+   * starts a new turn. Sides with no detected audio fall back to `nowMs`.
+   */
+  takeTurnTiming(nowMs: number): TurnTiming {
+    const fallback = { startMs: nowMs, endMs: nowMs };
+    const timing = { user: this.userSpan ?? fallback, model: this.modelSpan ?? fallback };
+    this.userSpan = null;
+    this.modelSpan = null;
+    return timing;
+  }
+
+  speechActivity(): SpeechActivity {
+    return {
+      candidate: this.activity.candidate.map((span) => ({ ...span })),
+      interviewer: this.activity.interviewer.map((span) => ({ ...span })),
+    };
+  }
+
+  exportCandidateWav(): Uint8Array {
+    return encodeWav(this.candidate.toInt16(), CANDIDATE_STEM_RATE);
+  }
+
+  exportInterviewerWav(): Uint8Array {
+    return encodeWav(this.interviewer.toInt16(), INTERVIEWER_STEM_RATE);
+  }
+
+  // Both sides on one 24kHz track; the candidate stem is upsampled with linear interpolation
+  exportMixedWav(): Uint8Array {
+    const length = Math.ceil((this.durationMs() / 1000) * MIX_SAMPLE_RATE);
+    const mix = new Int16Array(length);
+    const interviewer = this.interviewer.toInt16(Math.min(length, this.interviewer.length));
+    const candidate = this.candidate.toInt16();
+    const ratio = CANDIDATE_STEM_RATE / MIX_SAMPLE_RATE;
+
+    for (let i = 0; i < length; i++) {
+      const pos = i * ratio;
+      const j = Math.floor(pos);
+      const a = candidate[j] ?? 0;
+      const b = candidate[j + 1] ?? a;
+      const candidateSample = a + (b - a) * (pos - j);
+      const sum = candidateSample + (interviewer[i] ?? 0);
+      mix[i] = Math.max(-32768, Math.min(32767, Math.round(sum)));
+    }
+
+    return encodeWav(mix, MIX_SAMPLE_RATE);
+  }
+
+  reset() {
+    this.candidate.reset();
+    this.interviewer.reset();
+    this.recording = false;
+    this.micCursor = 0;
+    this.userSpan = null;
+    this.modelSpan = null;
+    this.activity = { candidate: [], interviewer: [] };
+  }
+}
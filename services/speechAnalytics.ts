@@ -0,0 +1,148 @@
+import { LONG_SILENCE_MS } from '../constants';
+import type { ChatMessage, DeliveryMetrics, DeliveryMinute, FillerCount, ResponseLatency, SilenceSpan } from '../types';
+import type { SpeechActivity, TimedSpan } from './sessionRecorder';
+
+const MINUTE_MS = 60_000;
+const MIN_PACE_SECONDS = 10; // Less speech than this gives no meaningful pace
+
+// Words that make the following phrase literal rather than a filler ("I like", "what kind of", "do you know")
+const DETERMINERS = ['a', 'the', 'what', 'which', 'this', 'that', 'any', 'some', 'same', 'every', 'one'];
+const LITERAL_AFTER: Record<string, string[]> = {
+  like: ['i', 'you', 'we', 'they', 'would', "i'd", "we'd", "you'd", "they'd", 'look', 'looks', 'looked', 'feel', 'feels', 'felt', 'seem', 'seems', 'sound', 'sounds', 'something', 'anything', 'nothing', "don't", "didn't", 'really', 'not', 'just'],
+  'kind of': DETERMINERS,
+  'sort of': DETERMINERS,
+  'you know': ['do', 'did', 'if', 'would'],
+};
+
+type Spoken = ChatMessage & TimedSpan;
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits));
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+// Typed answers and messages without timing have no duration and say nothing about delivery
+const isSpoken = (message: ChatMessage): message is Spoken =>
+  message.startMs !== undefined && message.endMs !== undefined && message.endMs > message.startMs && !!message.text.trim();
+
+// Returns the token index of each filler, matching longer phrases first
+const findFillers = (tokens: string[], phrases: string[][]) => {
+  const found: { phrase: string; index: number }[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const match = phrases.find((words) => words.every((word, j) => tokens[i + j] === word));
+    if (!match) continue;
+    const phrase = match.join(' ');
+    if (LITERAL_AFTER[phrase]?.includes(tokens[i - 1])) continue;
+    found.push({ phrase, index: i });
+    i += match.length - 1;
+  }
+  return found;
+};
+
+const addSeconds = (minutes: DeliveryMinute[], span: TimedSpan, key: 'candidateSeconds' | 'interviewerSeconds') => {
+  for (let m = Math.floor(span.startMs / MINUTE_MS); m < minutes.length && m * MINUTE_MS < span.endMs; m++) {
+    const overlap = Math.min(span.endMs, (m + 1) * MINUTE_MS) - Math.max(span.startMs, m * MINUTE_MS);
+    if (overlap > 0) minutes[m][key] += overlap / 1000;
+  }
+};
+
+const totalSeconds = (spans: TimedSpan[]) => spans.reduce((sum, span) => sum + (span.endMs - span.startMs), 0) / 1000;
+
+// Gaps between the end of all speech so far and the next time anyone speaks
+const findSilences = (spans: TimedSpan[]): SilenceSpan[] => {
+  const sorted = [...spans].sort((a, b) => a.startMs - b.startMs);
+  const silences: SilenceSpan[] = [];
+  let speechEnd = sorted[0]?.endMs ?? 0;
+  for (const span of sorted.slice(1)) {
+    if (span.startMs - speechEnd >= LONG_SILENCE_MS) silences.push({ startMs: speechEnd, endMs: span.startMs });
+    speechEnd = Math.max(speechEnd, span.endMs);
+  }
+  return silences;
+};
+
+/**
+ * Measures how the candidate spoke: pace, filler words, talk time against the interviewer,
+ * the longest answer, how quickly answers started and long silences, overall and per minute.
+ * Talk time and silences use the detected speech when there is any, and the message timing
+ * otherwise. `fillerPhrases` is null for languages without a filler list. Returns null when
+ * the candidate never spoke (typed-only sessions).
+ */
+export const analyzeDelivery = (
+  messages: ChatMessage[],
+  activity: SpeechActivity,
+  durationMs: number,
+  fillerPhrases: string[] | null,
+): DeliveryMetrics | null => {
+  const answers = messages.flatMap((message, index) => (message.role === 'user' && isSpoken(message) ? [{ message, index }] : []));
+  if (!answers.length) return null;
+
+  const minutes: DeliveryMinute[] = Array.from(
+    { length: Math.max(1, Math.ceil(Math.max(durationMs, ...messages.map((m) => m.endMs ?? 0)) / MINUTE_MS)) },
+    (_, minute) => ({ minute, words: 0, wordsPerMinute: null, fillers: 0, candidateSeconds: 0, interviewerSeconds: 0 }),
+  );
+  const minuteAt = (ms: number) => Math.min(minutes.length - 1, Math.max(0, Math.floor(ms / MINUTE_MS)));
+
+  // Words are spread evenly over their message, which is close enough at minute resolution
+  const phrases = fillerPhrases?.map((phrase) => tokenize(phrase)).sort((a, b) => b.length - a.length) ?? [];
+  const fillerCounts = new Map<string, number>();
+  let candidateWords = 0;
+  for (const { message } of answers) {
+    const { startMs, endMs } = message;
+    const tokens = tokenize(message.text);
+    const timeOf = (index: number) => startMs + ((index + 0.5) / tokens.length) * (endMs - startMs);
+    tokens.forEach((_, i) => minutes[minuteAt(timeOf(i))].words++);
+    candidateWords += tokens.length;
+    for (const { phrase, index } of findFillers(tokens, phrases)) {
+      fillerCounts.set(phrase, (fillerCounts.get(phrase) ?? 0) + 1);
+      minutes[minuteAt(timeOf(index))].fillers++;
+    }
+  }
+
+  const spokenSpans = (role: ChatMessage['role']) =>
+    messages.filter((m): m is Spoken => m.role === role && isSpoken(m)).map(({ startMs, endMs }) => ({ startMs, endMs }));
+  const candidateSpeech = activity.candidate.length ? activity.candidate : spokenSpans('user');
+  const interviewerSpeech = activity.interviewer.length ? activity.interviewer : spokenSpans('model');
+  candidateSpeech.forEach((span) => addSeconds(minutes, span, 'candidateSeconds'));
+  interviewerSpeech.forEach((span) => addSeconds(minutes, span, 'interviewerSeconds'));
+  for (const minute of minutes) {
+    minute.wordsPerMinute = minute.candidateSeconds >= MIN_PACE_SECONDS ? Math.round(minute.words / (minute.candidateSeconds / 60)) : null;
+    minute.candidateSeconds = round(minute.candidateSeconds);
+    minute.interviewerSeconds = round(minute.interviewerSeconds);
+  }
+
+  const candidateTalkSeconds = totalSeconds(candidateSpeech);
+  const interviewerTalkSeconds = totalSeconds(interviewerSpeech);
+
+  const length = ({ message }: { message: Spoken }) => message.endMs - message.startMs;
+  const longest = answers.reduce((best, answer) => (length(answer) > length(best) ? answer : best));
+
+  // The reply to the previous answer is the question this one answers
+  const latencies: ResponseLatency[] = answers.flatMap(({ message, index }) => {
+    const question = messages[index - 1];
+    if (question?.role !== 'model' || question.endMs === undefined || !question.text.trim()) return [];
+    return [{ messageIndex: index, seconds: round(Math.max(0, (message.startMs - question.endMs) / 1000)) }];
+  });
+
+  const fillers: FillerCount[] = [...fillerCounts.entries()]
+    .map(([phrase, count]) => ({ phrase, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    candidateWords,
+    wordsPerMinute: candidateTalkSeconds >= MIN_PACE_SECONDS ? Math.round(candidateWords / (candidateTalkSeconds / 60)) : null,
+    fillerCount: fillerPhrases ? fillers.reduce((sum, f) => sum + f.count, 0) : null,
+    fillers,
+    candidateTalkSeconds: round(candidateTalkSeconds),
+    interviewerTalkSeconds: round(interviewerTalkSeconds),
+    talkRatio:
+      candidateTalkSeconds + interviewerTalkSeconds > 0
+        ? round(candidateTalkSeconds / (candidateTalkSeconds + interviewerTalkSeconds), 2)
+        : null,
+    longestMonologue: { messageIndex: longest.index, seconds: round(length(longest) / 1000) },
+    averageLatencySeconds: latencies.length
+      ? round(latencies.reduce((sum, l) => sum + l.seconds, 0) / latencies.length)
+      : null,
+    latencies,
+    silences: findSilences([...candidateSpeech, ...interviewerSpeech]),
+    minutes,
+  };
+};
@@ -0,0 +1,22 @@
+import type { WhiteboardFeedback, WhiteboardSnapshot } from '../types';
+import type { ImageAttachment } from './liveTransport';
+
+const toScore = (value: unknown) => (typeof value === 'number' ? Math.max(0, Math.min(10, value)) : 0);
+
+// Splits a canvas data URL into the base64 payload the transports send
+export const toImageAttachment = (dataUrl: string): ImageAttachment => {
+  const [header, data = ''] = dataUrl.split(',', 2);
+  return { data, mimeType: header.match(/^data:([^;]+)/)?.[1] ?? 'image/jpeg' };
+};
+
+// Adds the board history to the model's diagram score; a missing score counts as 0
+export const toWhiteboardFeedback = (snapshots: WhiteboardSnapshot[], reported: unknown): WhiteboardFeedback => {
+  const data = reported && typeof reported === 'object' ? (reported as Record<string, unknown>) : {};
+  return {
+    finalImage: snapshots[snapshots.length - 1].image,
+    snapshots: snapshots.length,
+    shares: snapshots.filter((s) => s.shared).length,
+    score: toScore(data.score),
+    comment: typeof data.comment === 'string' ? data.comment : '',
+  };
+};
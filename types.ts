@@ -3,11 +3,14 @@ export enum InterviewState {
   IDLE = 'IDLE',
   CONNECTING = 'CONNECTING',
   ACTIVE = 'ACTIVE',
+  RECONNECTING = 'RECONNECTING',
+  PAUSED = 'PAUSED',
   ANALYZING = 'ANALYZING',
   FEEDBACK = 'FEEDBACK',
   ERROR = 'ERROR'
 }
 
+// Ids of the built-in role presets (see BUILT_IN_ROLES)
 export enum InterviewType {
   SOFTWARE_ENGINEER = 'Software Engineer',
   PRODUCT_MANAGER = 'Product Manager',
@@ -28,42 +31,380 @@ export enum InterviewType {
   TEACHER = 'Teacher/Educator'
 }
 
+// One scored dimension of a role's rubric
+export interface Competency {
+  id: string;
+  name: string;
+  description: string; // What good looks like, in prompt form
+  weight: number; // Relative importance, 1-5
+}
+
+export interface RoleDefinition {
+  id: string;
+  title: string;
+  competencies: Competency[];
+  focusAreas: string[]; // Topics the interview should cover
+  codingInterview?: boolean; // Offers the live coding editor
+  builtIn?: boolean; // Presets are read-only; duplicate them to customize
+}
+
+export interface CompetencyScore {
+  id: string;
+  name: string;
+  score: number; // 0-10
+  weight: number;
+}
+
+// Ids of the built-in persona presets (see BUILT_IN_PERSONAS)
 export enum InterviewerPersona {
   FRIENDLY = 'Friendly Recruiter',
   STRICT = 'Strict Technical Lead',
   BEHAVIORAL = 'Behavioral HR Specialist'
 }
 
+export type FollowUpLevel = 'light' | 'moderate' | 'relentless';
+export type InterruptionTolerance = 'patient' | 'balanced' | 'brisk';
+
+export interface PersonaProfile {
+  id: string;
+  name: string;
+  instructions: string; // Behavior, in prompt form
+  voiceName: string;
+  followUpLevel: FollowUpLevel;
+  interruptionTolerance: InterruptionTolerance;
+  skipStages?: string[]; // DEFAULT_AGENDA stage ids this interviewer leaves out, e.g. "technical"
+  builtIn?: boolean; // Presets are read-only; duplicate them to customize
+}
+
+export enum InterviewMode {
+  VOICE = 'Voice',
+  TEXT = 'Text'
+}
+
 export interface InterviewConfig {
-  type: InterviewType;
-  persona: InterviewerPersona;
+  type: string; // RoleDefinition id: an InterviewType preset or a custom role
+  persona: string; // PersonaProfile id: an InterviewerPersona preset or a custom persona
   context: string; 
-  resumeText?: string;
+  resumeText?: string; // Full extracted text; parsed into a ParsedResume when the session starts
   enableGestures: boolean; // New config
+  mode: InterviewMode;
+  speakReplies: boolean; // Text mode only: play the interviewer's voice as well
+  voiceName: string; // Prebuilt interviewer voice, see INTERVIEWER_VOICES
+  liveModel: string; // Live conversation model, see LIVE_MODELS
+  speakingRate: number; // 1 = natural pace
+  durationMinutes: number; // Time box for the interview, 0 = untimed
+  wrapUpMinutes: number; // How long before the end the interviewer starts wrapping up
+  questionBankId: string | null; // Imported bank the interviewer must draw from
+  bankDifficulty: QuestionDifficulty | 'any';
+  jobDescriptionText: string; // Raw job description, empty when none was given
+  language: string; // Interview language code, see INTERVIEW_LANGUAGES
+  nativeLanguage: string | null; // Mixed mode: the candidate's own language, which they may fall back to
+  codingLanguage: string | null; // Live coding editor language; null turns coding mode off
+  enableWhiteboard: boolean; // Shared whiteboard for drawing diagrams
+  shareCamera: boolean; // Stream webcam stills to the interviewer
+  cameraFrameRate: number; // Frames per second sent when shareCamera is on, see CAMERA_FRAME_RATES
+  cameraFrameWidth: number; // Frame width in px, see CAMERA_FRAME_WIDTHS
+}
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  role?: string; // Untagged questions suit every role
+  difficulty?: QuestionDifficulty;
+  topic?: string;
+}
+
+export interface QuestionBank {
+  id: string;
+  name: string;
+  questions: BankQuestion[];
+  importedAt: number;
+}
+
+export interface BankQuestionFeedback {
+  id: string;
+  question: string;
+  topic?: string;
+  asked: boolean;
+  answerSummary: string;
+  score?: number; // 0-10, only for asked questions
+}
+
+export interface ResumeEntry {
+  heading: string; // Job title and company, degree and school, or project name
+  subheading?: string;
+  dates?: string;
+  details: string[];
+}
+
+// Resume split into the sections the interviewer cares about
+export interface ParsedResume {
+  name?: string;
+  contact: string[]; // Email, phone, profile links; kept out of the prompt
+  summary: string;
+  experience: ResumeEntry[];
+  education: ResumeEntry[];
+  skills: string[];
+  projects: ResumeEntry[];
+}
+
+export interface CodeRevision {
+  revision: number;
+  atMs: number; // Session clock (pauses excluded)
+  language: string; // CODING_LANGUAGES id
+  code: string;
+  submitted: boolean; // Explicit submit rather than an autosave
+}
+
+export interface CodingFeedback {
+  language: string;
+  finalCode: string;
+  revisions: number;
+  submissions: number;
+  score: number; // 0-10 overall code quality
+  correctness: number; // 0-10
+  readability: number; // 0-10
+  efficiency: number; // 0-10
+  comment: string;
+}
+
+export interface WhiteboardSnapshot {
+  revision: number;
+  atMs: number; // Session clock (pauses excluded)
+  image: string; // JPEG data URL of the rendered board
+  shared: boolean; // Explicit share rather than an autosave after a pause
+}
+
+export interface WhiteboardFeedback {
+  finalImage: string; // JPEG data URL of the last version of the diagram
+  snapshots: number;
+  shares: number;
+  score: number; // 0-10
+  comment: string;
+}
+
+export interface InterviewLanguage {
+  code: string; // BCP-47, e.g. "es-ES"
+  name: string; // English name, used in prompts
+  nativeName: string;
+  loadingMessages: string[];
+}
+
+export interface LanguageCorrection {
+  original: string; // What the candidate said
+  improved: string; // A more natural way to say it
+  note: string;
+}
+
+// Mixed mode only: how the candidate handled the interview language itself
+export interface LanguageFeedback {
+  fluency: number; // 0-10
+  grammar: number; // 0-10
+  vocabulary: number; // 0-10
+  nativeLanguageSwitches: number; // Times the candidate fell back to their own language
+  corrections: LanguageCorrection[];
+  tips: string[];
+}
+
+export type JobRequirementKind = 'skill' | 'responsibility' | 'seniority';
+
+export interface JobRequirement {
+  id: string; // "R1", "R2", ... referenced by the feedback prompt
+  kind: JobRequirementKind;
+  text: string;
+}
+
+// What we could pull out of a pasted or uploaded job description
+export interface JobDescription {
+  title?: string;
+  requirements: JobRequirement[];
+}
+
+export type JobFitStatus = 'strong' | 'partial' | 'gap' | 'untested';
+
+export interface JobFitFeedback {
+  id: string;
+  kind: JobRequirementKind;
+  requirement: string;
+  status: JobFitStatus;
+  evidence: string; // Transcript evidence, or what was missing
+}
+
+export type GestureEventType = 'smile' | 'eyeTouch' | 'handGesture' | 'lookAway' | 'lookDown';
+
+export interface GestureEvent {
+  type: GestureEventType;
+  atMs: number; // Interview timeline, same base as ChatMessage.startMs
+}
+
+// Degrees; +yaw turns towards the right of the image, +pitch tilts down
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
 }
 
 export interface GestureMetrics {
   smileCount: number;
   eyeTouchCount: number;
   handGestureCount: number;
+  eyeContactPercent: number | null; // Share of tracked time looking at the camera; null if no face was seen
+  lookAwayCount: number; // Look-aways of a second or more, including leaving the frame
+  lookAwayAverageSeconds: number;
+  lookAwayLongestSeconds: number;
+  lookDownCount: number; // Sustained looks down, e.g. reading notes
+  lookDownSeconds: number;
+  averageHeadPose: HeadPose | null;
+}
+
+// One phase of the interview agenda
+export interface AgendaStage {
+  id: string;
+  title: string;
+  goal: string; // What the interviewer should cover, in prompt form
+  targetMinutes: number;
+  questionCount: number;
+}
+
+export interface StageFeedback {
+  id: string;
+  title: string;
+  score: number; // 0-10
+  comment: string;
+  answers: number; // Candidate answers given during the stage
+  questionCount: number;
+  targetMinutes: number;
+  actualSeconds: number;
+}
+
+// One interviewer message and the candidate's reply, found in the session transcript
+export interface AnswerSegment {
+  id: number; // 1-based, in interview order
+  questionIndex: number; // Index of the interviewer message in the transcript
+  answerIndices: number[]; // Indices of the candidate messages answering it
+  question: string;
+  answer: string;
+}
+
+export interface AnswerEvidence {
+  quote: string; // Verbatim span of the answer
+  messageIndex: number; // Transcript message the quote was found in
+  kind: 'strength' | 'weakness';
+}
+
+export interface AnswerFeedback {
+  id: number;
+  question: string;
+  questionIndex: number;
+  score: number; // 0-10
+  relevance: number; // 0-10
+  depth: number; // 0-10
+  clarity: number; // 0-10
+  critique: string;
+  evidence: AnswerEvidence[];
+}
+
+// One minute of active interview time in the delivery charts
+export interface DeliveryMinute {
+  minute: number; // 0-based
+  words: number; // Candidate words spoken in this minute
+  wordsPerMinute: number | null; // Pace while speaking; null when the candidate barely spoke
+  fillers: number;
+  candidateSeconds: number;
+  interviewerSeconds: number;
+}
+
+export interface FillerCount {
+  phrase: string;
+  count: number;
+}
+
+export interface ResponseLatency {
+  messageIndex: number; // The answer, in the session transcript
+  seconds: number; // From the end of the question to the first words of the answer
+}
+
+export interface SilenceSpan {
+  startMs: number;
+  endMs: number;
+}
+
+// Speech delivery measured locally from message timing and detected speech, not by the model
+export interface DeliveryMetrics {
+  candidateWords: number;
+  wordsPerMinute: number | null; // Null without enough timed speech
+  fillerCount: number | null; // Null when the interview language has no filler list
+  fillers: FillerCount[]; // Most frequent first
+  candidateTalkSeconds: number;
+  interviewerTalkSeconds: number;
+  talkRatio: number | null; // Candidate share of all talk time, 0-1
+  longestMonologue: { messageIndex: number; seconds: number } | null;
+  averageLatencySeconds: number | null;
+  latencies: ResponseLatency[];
+  silences: SilenceSpan[]; // Stretches where neither side spoke, in timeline order
+  minutes: DeliveryMinute[];
+}
+
+// Vocal measurements for one answer, from the microphone signal
+export interface AnswerProsody {
+  messageIndex: number; // The answer, in the session transcript
+  loudnessDb: number; // Mean level while speaking, dBFS
+  loudnessVariationDb: number;
+  pitchHz: number | null; // Median F0; null when no clear pitch was found
+  pitchVariationSemitones: number | null;
+  monotone: boolean;
+  trailingOff: boolean; // Volume fades towards the end
+  uptalk: boolean; // Most phrases end on a rising pitch
+}
+
+export interface ProsodyMetrics {
+  answers: AnswerProsody[];
+  loudnessDb: number | null;
+  loudnessVariationDb: number | null;
+  pitchVariationSemitones: number | null;
+  monotoneAnswers: number;
+  trailingOffAnswers: number;
+  uptalkAnswers: number;
+  clippingPercent: number; // Share of voiced audio that hit full scale
+  clipping: boolean;
+  tooQuiet: boolean;
+}
+
+// The model's confidence score for voice sessions, judged together with the prosody metrics
+export interface ConfidenceFeedback {
+  score: number; // 0-10
+  comment: string;
 }
 
 export interface FeedbackData {
-  score: number;
+  score: number | null; // null when the analysis never returned a valid overall score
   strengths: string[];
   improvements: string[];
-  metrics: {
-    technical: number;
-    communication: number;
-    confidence: number;
-    clarity: number;
-    problemSolving: number;
-  };
+  competencies: CompetencyScore[]; // Scores against the role's rubric
   gestureMetrics?: GestureMetrics; // Optional, only if enabled
+  durationSeconds?: number; // Active interview time, pauses excluded
+  stages?: StageFeedback[]; // Per-stage breakdown for the stages that were reached
+  bankQuestions?: BankQuestionFeedback[]; // Coverage of the question bank, if one was used
+  jobFit?: JobFitFeedback[]; // Evidence per job description requirement, if a JD was given
+  languageFeedback?: LanguageFeedback; // Mixed-language sessions only
+  coding?: CodingFeedback; // Live coding sessions where the candidate wrote code
+  whiteboard?: WhiteboardFeedback; // Sessions where the candidate drew on the whiteboard
+  answers?: AnswerFeedback[]; // Per question/answer pair, with quotes linked to the transcript
+  delivery?: DeliveryMetrics; // Pace, fillers, talk time and pauses from timed speech
+  prosody?: ProsodyMetrics; // Loudness and pitch from the microphone, voice sessions only
+  confidence?: ConfidenceFeedback; // Scored whenever prosody was measured, whatever the rubric
+  missingSections?: string[]; // Response fields that stayed missing or malformed after every retry
   summary: string;
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  // Position on the recording timeline (active interview time, pauses excluded)
+  startMs?: number;
+  endMs?: number;
+  interrupted?: boolean; // Model reply cut off by the candidate
 }
+